@@ -1,12 +1,34 @@
 import type CDP from 'chrome-remote-interface';
 
-import type {PageSession} from './pageSession.js';
+import type {ConnectionStateEvent, PageSession} from './pageSession.js';
+import {formatFrame} from './scriptCatalog.js';
+import {compileSearchPattern} from './searchPattern.js';
 import type {McpServer} from '@modelcontextprotocol/sdk/server/mcp.js';
 
 export interface ConsoleStreamOptions {
   levels?: Array<'log' | 'debug' | 'info' | 'warn' | 'error'>;
   includeExceptions?: boolean;
   includeStack?: boolean;
+  /** Only stream messages matching one of these (text or `/regex/flags`). */
+  include?: string[];
+  /** Drop messages matching any of these (text or `/regex/flags`). */
+  exclude?: string[];
+  /** Only stream messages whose top frame URL matches one of these. */
+  urls?: string[];
+  /** Messages streamed per second before the rest are dropped. */
+  maxPerSecond?: number;
+  /** Collapse identical consecutive messages into "(repeated N times)". */
+  collapseRepeats?: boolean;
+}
+
+export interface ConsoleStreamStats {
+  sent: number;
+  /** Rejected by include/exclude/URL filters. */
+  filtered: number;
+  /** Over the per-second limit. */
+  dropped: number;
+  /** Identical consecutive messages folded into a repeat summary. */
+  merged: number;
 }
 
 const DEFAULT_LEVELS: ConsoleStreamOptions['levels'] = [
@@ -17,40 +39,277 @@ const DEFAULT_LEVELS: ConsoleStreamOptions['levels'] = [
   'error',
 ];
 
+// Flush "(repeated N times)" at least this often while a line keeps repeating.
+const REPEAT_FLUSH_MS = 1000;
+
+type LoggingLevel = 'debug' | 'info' | 'warning' | 'error';
+
+interface StreamMessage {
+  level: LoggingLevel;
+  text: string;
+  url?: string;
+  stackTrace?: StackTrace;
+}
+
+interface CompiledFilters {
+  include: RegExp[];
+  exclude: RegExp[];
+  urls: RegExp[];
+}
+
+interface PendingRepeat {
+  message: StreamMessage;
+  count: number;
+  timer: NodeJS.Timeout;
+}
+
+export const DEFAULT_SUBSCRIPTION_NAME = 'default';
+
+export interface ConsoleSubscriptionInfo {
+  name: string;
+  options: ConsoleStreamOptions;
+  stats: ConsoleStreamStats;
+}
+
+type StreamSender = (
+  level: LoggingLevel,
+  message: string,
+  stackTrace?: StackTrace,
+) => void;
+
+/**
+ * One named stream: its own levels, filters, repeat collapsing, rate limit,
+ * and counters. The manager feeds it every console message and exception.
+ */
+class ConsoleSubscription {
+  readonly name: string;
+  readonly options: ConsoleStreamOptions;
+  #send: StreamSender;
+  #filters: CompiledFilters;
+  #stats: ConsoleStreamStats = {sent: 0, filtered: 0, dropped: 0, merged: 0};
+  #lastKey?: string;
+  #pendingRepeat?: PendingRepeat;
+  #windowStart = 0;
+  #windowCount = 0;
+  #droppedSinceNotice = 0;
+  #dropTimer?: NodeJS.Timeout;
+
+  constructor(name: string, options: ConsoleStreamOptions, send: StreamSender) {
+    this.name = name;
+    this.#send = send;
+    // Compiling throws on an invalid pattern before anything is replaced.
+    this.#filters = {
+      include: (options.include ?? []).map(compileSearchPattern),
+      exclude: (options.exclude ?? []).map(compileSearchPattern),
+      urls: (options.urls ?? []).map(compileSearchPattern),
+    };
+    this.options = {
+      levels: options.levels?.length ? options.levels : DEFAULT_LEVELS,
+      includeExceptions: options.includeExceptions ?? true,
+      includeStack: options.includeStack ?? false,
+      include: options.include,
+      exclude: options.exclude,
+      urls: options.urls,
+      maxPerSecond: options.maxPerSecond,
+      collapseRepeats: options.collapseRepeats ?? true,
+    };
+  }
+
+  get stats(): ConsoleStreamStats {
+    return {...this.#stats};
+  }
+
+  handleConsole(type: string, message: StreamMessage): void {
+    if (this.options.levels?.includes(mapConsoleTypeToStreamLevel(type))) {
+      this.#stream(message);
+    }
+  }
+
+  handleException(message: StreamMessage): void {
+    if (this.options.includeExceptions) {
+      this.#stream(message);
+    }
+  }
+
+  /** Emit any pending repeat or dropped summary; call before discarding the stream. */
+  close(): void {
+    this.#flushRepeat();
+    this.#flushDropped();
+  }
+
+  /** Apply filters, repeat collapsing, and the rate limit, then send. */
+  #stream(message: StreamMessage): void {
+    const {include, exclude, urls} = this.#filters;
+    if (
+      (include.length && !include.some(pattern => pattern.test(message.text))) ||
+      exclude.some(pattern => pattern.test(message.text)) ||
+      (urls.length && !urls.some(pattern => pattern.test(message.url ?? '')))
+    ) {
+      this.#stats.filtered++;
+      return;
+    }
+
+    const key = `${message.level}\u0000${message.text}`;
+    if (this.options.collapseRepeats && key === this.#lastKey) {
+      this.#stats.merged++;
+      if (this.#pendingRepeat) {
+        this.#pendingRepeat.count++;
+      } else {
+        const timer = setTimeout(() => this.#flushRepeat(), REPEAT_FLUSH_MS);
+        timer.unref?.();
+        this.#pendingRepeat = {message, count: 1, timer};
+      }
+      return;
+    }
+    this.#flushRepeat();
+    this.#lastKey = key;
+
+    if (!this.#withinRateLimit()) {
+      this.#stats.dropped++;
+      this.#droppedSinceNotice++;
+      if (!this.#dropTimer) {
+        // Report when the window rolls over, even if the burst has ended by then.
+        const delay = Math.max(0, this.#windowStart + 1000 - Date.now());
+        this.#dropTimer = setTimeout(() => this.#flushDropped(), delay);
+        this.#dropTimer.unref?.();
+      }
+      return;
+    }
+    this.#flushDropped();
+    this.#stats.sent++;
+    this.#send(
+      message.level,
+      message.text,
+      this.options.includeStack ? message.stackTrace : undefined,
+    );
+  }
+
+  #withinRateLimit(): boolean {
+    const maxPerSecond = this.options.maxPerSecond;
+    if (!maxPerSecond) {
+      return true;
+    }
+    const now = Date.now();
+    if (now - this.#windowStart >= 1000) {
+      this.#windowStart = now;
+      this.#windowCount = 0;
+    }
+    if (this.#windowCount >= maxPerSecond) {
+      return false;
+    }
+    this.#windowCount++;
+    return true;
+  }
+
+  #flushDropped(): void {
+    clearTimeout(this.#dropTimer);
+    this.#dropTimer = undefined;
+    if (this.#droppedSinceNotice === 0) {
+      return;
+    }
+    this.#send(
+      'warning',
+      `[console] ${this.#droppedSinceNotice} message(s) dropped (over ${this.options.maxPerSecond}/s).`,
+    );
+    this.#droppedSinceNotice = 0;
+  }
+
+  #flushRepeat(): void {
+    const pending = this.#pendingRepeat;
+    if (!pending) {
+      return;
+    }
+    clearTimeout(pending.timer);
+    this.#pendingRepeat = undefined;
+    const times = pending.count === 1 ? 'once more' : `${pending.count} times`;
+    this.#send(pending.message.level, `${pending.message.text} (repeated ${times})`);
+  }
+}
+
 export class ConsoleStreamManager {
   #session: PageSession;
   #server: McpServer;
+  #logger?: string;
   #client?: CDP.Client;
-  #subscription?: ConsoleStreamOptions;
+  #subscriptions = new Map<string, ConsoleSubscription>();
   #consoleListener?: (...args: unknown[]) => void;
   #exceptionListener?: (...args: unknown[]) => void;
+  // Source-map lookups are async; chain sends so messages keep their order.
+  #sendQueue: Promise<void> = Promise.resolve();
 
-  constructor(session: PageSession, server: McpServer) {
+  /**
+   * @param logger Name reported as the MCP logging `logger`, used to tell
+   *   targets apart when several are attached.
+   */
+  constructor(session: PageSession, server: McpServer, logger?: string) {
     this.#session = session;
     this.#server = server;
+    this.#logger = logger;
+    this.#session.onConnectionStateChange(event =>
+      this.#handleConnectionState(event),
+    );
   }
 
   get active(): boolean {
-    return !!this.#subscription;
+    return this.#subscriptions.size > 0;
+  }
+
+  list(): ConsoleSubscriptionInfo[] {
+    return Array.from(this.#subscriptions.values()).map(subscription => ({
+      name: subscription.name,
+      options: subscription.options,
+      stats: subscription.stats,
+    }));
   }
 
-  get options(): ConsoleStreamOptions | undefined {
-    return this.#subscription;
+  has(name: string): boolean {
+    return this.#subscriptions.has(name);
   }
 
-  async subscribe(options: ConsoleStreamOptions): Promise<void> {
+  /** Add a named subscription, replacing (and resetting) one with the same name. */
+  async subscribe(
+    options: ConsoleStreamOptions,
+    name = DEFAULT_SUBSCRIPTION_NAME,
+  ): Promise<void> {
+    const subscription = new ConsoleSubscription(name, options, (level, message, stackTrace) =>
+      this.#sendLogging(this.#loggerFor(name), level, message, stackTrace),
+    );
     const client = await this.#session.getClient();
     await client.Runtime.enable().catch(() => {});
     this.#client = client;
 
-    const normalized: ConsoleStreamOptions = {
-      levels: options.levels?.length ? options.levels : DEFAULT_LEVELS,
-      includeExceptions: options.includeExceptions ?? true,
-      includeStack: options.includeStack ?? false,
-    };
+    this.#subscriptions.get(name)?.close();
+    this.#subscriptions.set(name, subscription);
+    this.#attachListeners(client);
+  }
 
-    this.#subscription = normalized;
+  /** Remove one subscription, or all of them when no name is given. */
+  async unsubscribe(name?: string): Promise<void> {
+    const removed =
+      name === undefined
+        ? Array.from(this.#subscriptions.keys())
+        : this.#subscriptions.has(name)
+          ? [name]
+          : [];
+    for (const key of removed) {
+      this.#subscriptions.get(key)?.close();
+      this.#subscriptions.delete(key);
+    }
+    if (this.#subscriptions.size > 0) {
+      return;
+    }
+    const client = this.#client ?? (await this.#session.getClient());
+    if (this.#consoleListener) {
+      removeListener(client, 'Runtime.consoleAPICalled', this.#consoleListener);
+      this.#consoleListener = undefined;
+    }
+    if (this.#exceptionListener) {
+      removeListener(client, 'Runtime.exceptionThrown', this.#exceptionListener);
+      this.#exceptionListener = undefined;
+    }
+  }
 
+  #attachListeners(client: CDP.Client): void {
     if (!this.#consoleListener) {
       this.#consoleListener = (...args: unknown[]) => {
         const event = (args[0] ?? {}) as ConsoleEvent;
@@ -68,54 +327,89 @@ export class ConsoleStreamManager {
     }
   }
 
-  async unsubscribe(): Promise<void> {
-    const client = this.#client ?? (await this.#session.getClient());
-    if (this.#consoleListener) {
-      removeListener(client, 'Runtime.consoleAPICalled', this.#consoleListener);
-      this.#consoleListener = undefined;
+  #handleConnectionState(event: ConnectionStateEvent): void {
+    if (event.state !== 'connected' || !event.client || event.client === this.#client) {
+      return;
     }
-    if (this.#exceptionListener) {
-      removeListener(client, 'Runtime.exceptionThrown', this.#exceptionListener);
-      this.#exceptionListener = undefined;
+    // Listeners registered on the previous client are gone with its socket.
+    this.#consoleListener = undefined;
+    this.#exceptionListener = undefined;
+    this.#client = event.client;
+    if (this.#subscriptions.size > 0) {
+      this.#attachListeners(event.client);
     }
-    this.#subscription = undefined;
   }
 
   #handleConsoleEvent(event: ConsoleEvent): void {
-    if (!this.#subscription) {
+    if (!this.#subscriptions.size) {
       return;
     }
-
-    const streamLevel = mapConsoleTypeToStreamLevel(event.type);
-    if (!this.#subscription.levels?.includes(streamLevel)) {
-      return;
+    const message: StreamMessage = {
+      level: mapConsoleTypeToLoggingLevel(event.type),
+      text: formatConsoleMessage(event),
+      url: event.stackTrace?.callFrames?.[0]?.url,
+      stackTrace: event.stackTrace,
+    };
+    for (const subscription of this.#subscriptions.values()) {
+      subscription.handleConsole(event.type, message);
     }
-
-    const loggingLevel = mapConsoleTypeToLoggingLevel(event.type);
-    const text = formatConsoleMessage(event);
-    const stack = this.#subscription.includeStack
-      ? formatStack(event.stackTrace)
-      : undefined;
-    this.#sendLogging(loggingLevel, text, stack);
   }
 
   #handleException(event: ExceptionEvent): void {
-    if (!this.#subscription?.includeExceptions) {
+    if (!this.#subscriptions.size) {
       return;
     }
-    const message = event.exceptionDetails.text ?? event.exceptionDetails.exception?.description ?? 'Unhandled exception';
-    const stack = this.#subscription.includeStack
-      ? formatStack(event.exceptionDetails.stackTrace)
-      : undefined;
-    this.#sendLogging('error', `[exception] ${message}`, stack);
+    const details = event.exceptionDetails;
+    const message: StreamMessage = {
+      level: 'error',
+      text: `[exception] ${details.text ?? details.exception?.description ?? 'Unhandled exception'}`,
+      url: details.url ?? details.stackTrace?.callFrames?.[0]?.url,
+      stackTrace: details.stackTrace,
+    };
+    for (const subscription of this.#subscriptions.values()) {
+      subscription.handleException(message);
+    }
+  }
+
+  /** The default subscription keeps the bare target logger name. */
+  #loggerFor(name: string): string | undefined {
+    if (name === DEFAULT_SUBSCRIPTION_NAME) {
+      return this.#logger;
+    }
+    return this.#logger ? `${this.#logger}/${name}` : name;
   }
 
-  #sendLogging(level: 'debug' | 'info' | 'warning' | 'error', message: string, stack?: string): void {
-    const composed = stack ? `${message}\n${stack}` : message;
-    void this.#server.server.sendLoggingMessage({
-      level,
-      message: composed,
-    }).catch(() => {});
+  #sendLogging(
+    logger: string | undefined,
+    level: LoggingLevel,
+    message: string,
+    stackTrace?: StackTrace,
+  ): void {
+    const stack = stackTrace ? this.#formatStack(stackTrace) : undefined;
+    this.#sendQueue = this.#sendQueue.then(async () => {
+      const resolvedStack = await stack?.catch(() => undefined);
+      const composed = resolvedStack ? `${message}\n${resolvedStack}` : message;
+      await this.#server.server.sendLoggingMessage({
+        level,
+        logger,
+        message: composed,
+      }).catch(() => {});
+    });
+  }
+
+  /** First frames of a stack, mapped to original sources where possible. */
+  async #formatStack(stack?: StackTrace): Promise<string | undefined> {
+    if (!stack?.callFrames?.length) {
+      return undefined;
+    }
+    const firstFrames = stack.callFrames.slice(0, 5);
+    const lines = await Promise.all(
+      firstFrames.map(async frame => {
+        const original = await this.#session.scripts.resolve(frame).catch(() => undefined);
+        return `  ${formatFrame(frame, original)}`;
+      }),
+    );
+    return lines.length ? lines.join('\n') : undefined;
   }
 }
 
@@ -128,6 +422,7 @@ interface ConsoleArg {
 
 interface StackFrame {
   functionName: string;
+  scriptId?: string;
   url: string;
   lineNumber: number;
   columnNumber: number;
@@ -146,6 +441,7 @@ interface ConsoleEvent {
 interface ExceptionEvent {
   exceptionDetails: {
     text?: string;
+    url?: string;
     exception?: {
       description?: string;
     };
@@ -216,18 +512,6 @@ function describeRemoteObject(object: ConsoleArg): string {
   return object.type ?? 'undefined';
 }
 
-function formatStack(stack?: StackTrace): string | undefined {
-  if (!stack?.callFrames?.length) {
-    return undefined;
-  }
-  const firstFrames = stack.callFrames.slice(0, 5);
-  const lines = firstFrames.map(frame => {
-    const location = `${frame.url ?? '<anonymous>'}:${frame.lineNumber + 1}:${frame.columnNumber + 1}`;
-    return `  at ${frame.functionName || '<anonymous>'} (${location})`;
-  });
-  return lines.length ? lines.join('\n') : undefined;
-}
-
 function removeListener(
   client: CDP.Client,
   event: string,
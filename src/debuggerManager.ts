@@ -0,0 +1,409 @@
+import type CDP from 'chrome-remote-interface';
+
+import type {PageSession} from './pageSession.js';
+import type {FrameLocation} from './scriptCatalog.js';
+
+// How long a step waits for the next pause before reporting the page as running.
+const STEP_PAUSE_TIMEOUT_MS = 3000;
+
+/**
+ * Logpoint conditions carry this sourceURL so PageSession can tell their
+ * console output apart from the app's own.
+ */
+export const LOGPOINT_URL_PREFIX = 'mcp-logpoint://';
+
+export const LOGPOINT_LEVELS = ['log', 'info', 'warn', 'error', 'debug'] as const;
+export type LogpointLevel = (typeof LOGPOINT_LEVELS)[number];
+
+export interface LogpointSpec {
+  id: string;
+  /** Text with `{expression}` placeholders evaluated in the paused frame. */
+  template: string;
+  /** Only log when this expression is truthy. */
+  condition?: string;
+  level: LogpointLevel;
+}
+
+export const PAUSE_ON_EXCEPTIONS_STATES = ['none', 'uncaught', 'all'] as const;
+export type PauseOnExceptionsState = (typeof PAUSE_ON_EXCEPTIONS_STATES)[number];
+
+/** Where to break. Positions are zero-based, like CDP locations. */
+export interface BreakpointSpec {
+  url?: string;
+  urlRegex?: string;
+  /** Only for scripts without a URL; such breakpoints do not survive reconnects. */
+  scriptId?: string;
+  lineNumber: number;
+  columnNumber?: number;
+  condition?: string;
+  /** The original source location this breakpoint was mapped from. */
+  original?: {source: string; lineNumber: number; columnNumber: number};
+  /** Set when this breakpoint is a logpoint; `condition` is then generated. */
+  logpoint?: LogpointSpec;
+}
+
+export interface BreakpointLocation {
+  scriptId: string;
+  lineNumber: number;
+  columnNumber?: number;
+}
+
+export interface BreakpointInfo extends BreakpointSpec {
+  id: string;
+  /** Resolved locations in currently loaded scripts. */
+  locations: BreakpointLocation[];
+}
+
+export interface PausedCallFrame extends FrameLocation {
+  callFrameId: string;
+  scopeChain: PausedScope[];
+  /** Handle for `this` in the frame. */
+  thisObjectId?: string;
+}
+
+export interface PausedScope {
+  type: string;
+  name?: string;
+  objectId?: string;
+}
+
+export interface PausedState {
+  reason: string;
+  at: Date;
+  callFrames: PausedCallFrame[];
+  hitBreakpoints: string[];
+  /** Handle for the exception or other pause payload, when one is reported. */
+  dataObjectId?: string;
+  dataDescription?: string;
+}
+
+interface PausedEvent {
+  reason: string;
+  hitBreakpoints?: string[];
+  data?: {objectId?: string; description?: string};
+  callFrames: Array<{
+    callFrameId: string;
+    functionName: string;
+    url: string;
+    location: {scriptId: string; lineNumber: number; columnNumber?: number};
+    scopeChain: Array<{type: string; name?: string; object: {objectId?: string}}>;
+    this: {objectId?: string};
+  }>;
+}
+
+/**
+ * Breakpoints, pause-on-exceptions, and paused-state tracking for a session.
+ * Breakpoints set by URL are re-applied to every new connection before the
+ * page is released, so startup code can be debugged across app relaunches.
+ *
+ * The script catalog keeps pauses skipped while nothing here needs them.
+ */
+export class DebuggerManager {
+  #session: PageSession;
+  #client?: CDP.Client;
+  #breakpoints = new Map<string, BreakpointInfo>();
+  #pauseOnExceptions: PauseOnExceptionsState = 'none';
+  #paused?: PausedState;
+  #pauseWaiters = new Set<(state: PausedState) => void>();
+  #nextLogpointId = 1;
+
+  constructor(session: PageSession) {
+    this.#session = session;
+    this.#session.onClientOpened(client => this.#attach(client));
+  }
+
+  get paused(): PausedState | undefined {
+    return this.#paused;
+  }
+
+  get pauseOnExceptions(): PauseOnExceptionsState {
+    return this.#pauseOnExceptions;
+  }
+
+  listBreakpoints(): BreakpointInfo[] {
+    return Array.from(this.#breakpoints.values());
+  }
+
+  async setBreakpoint(spec: BreakpointSpec): Promise<BreakpointInfo> {
+    const client = await this.#getClient();
+    const info = await this.#applyBreakpoint(client, spec);
+    this.#breakpoints.set(info.id, info);
+    await this.#updateSkipPauses(client);
+    return info;
+  }
+
+  /**
+   * Break at an original (source-mapped) location, zero-based. One
+   * breakpoint is set per generated location the position maps to.
+   */
+  async setBreakpointAtOriginal(
+    source: string,
+    lineNumber: number,
+    columnNumber: number,
+    condition?: string,
+  ): Promise<BreakpointInfo[]> {
+    const locations = await this.#session.scripts.findGeneratedLocations(
+      source,
+      lineNumber,
+      columnNumber,
+    );
+    if (!locations.length) {
+      throw new Error(
+        `No loaded script has a source map with a mapping for ${source}:${lineNumber + 1}.`,
+      );
+    }
+    const results: BreakpointInfo[] = [];
+    for (const location of locations) {
+      results.push(
+        await this.setBreakpoint({
+          url: location.script.url || undefined,
+          scriptId: location.script.url ? undefined : location.script.scriptId,
+          lineNumber: location.lineNumber,
+          columnNumber: location.columnNumber,
+          condition,
+          original: {source: location.source, lineNumber, columnNumber},
+        }),
+      );
+    }
+    return results;
+  }
+
+  /**
+   * Add a breakpoint that logs instead of pausing. Use `urlRegex` so it is
+   * re-resolved in every reloaded copy of the script; scripts without a URL
+   * can only be targeted by `scriptId`, which does not survive a reload.
+   */
+  async addLogpoint(
+    location: Pick<BreakpointSpec, 'url' | 'urlRegex' | 'scriptId' | 'lineNumber' | 'columnNumber'>,
+    options: Omit<LogpointSpec, 'id'>,
+  ): Promise<BreakpointInfo> {
+    const logpoint: LogpointSpec = {...options, id: `lp-${this.#nextLogpointId++}`};
+    return this.setBreakpoint({
+      ...location,
+      condition: buildLogpointCondition(logpoint),
+      logpoint,
+    });
+  }
+
+  async removeBreakpoint(id: string): Promise<void> {
+    if (!this.#breakpoints.has(id)) {
+      throw new Error(`Unknown breakpoint ${id}.`);
+    }
+    const client = await this.#getClient();
+    await client.Debugger.removeBreakpoint({breakpointId: id});
+    this.#breakpoints.delete(id);
+    await this.#updateSkipPauses(client);
+  }
+
+  async setPauseOnExceptions(state: PauseOnExceptionsState): Promise<void> {
+    const client = await this.#getClient();
+    await client.Debugger.setPauseOnExceptions({state});
+    this.#pauseOnExceptions = state;
+    await this.#updateSkipPauses(client);
+  }
+
+  async resume(): Promise<void> {
+    const client = await this.#requirePaused();
+    await client.Debugger.resume({});
+  }
+
+  /** Step and wait briefly for the next pause; undefined if the page kept running. */
+  async step(kind: 'over' | 'into' | 'out'): Promise<PausedState | undefined> {
+    const client = await this.#requirePaused();
+    const next = this.#waitForPause(STEP_PAUSE_TIMEOUT_MS);
+    if (kind === 'over') {
+      await client.Debugger.stepOver({});
+    } else if (kind === 'into') {
+      await client.Debugger.stepInto({});
+    } else {
+      await client.Debugger.stepOut();
+    }
+    return next;
+  }
+
+  /** A frame of the current pause by index (0 = top). */
+  callFrame(index: number): PausedCallFrame {
+    const paused = this.#paused;
+    if (!paused) {
+      throw new Error('The page is not paused.');
+    }
+    const frame = paused.callFrames[index];
+    if (!frame) {
+      throw new Error(
+        `Frame ${index} does not exist; the paused stack has ${paused.callFrames.length} frame(s).`,
+      );
+    }
+    return frame;
+  }
+
+  async #attach(client: CDP.Client): Promise<void> {
+    if (this.#client === client) {
+      return;
+    }
+    this.#client = client;
+    this.#paused = undefined;
+    client.on('Debugger.paused', params => this.#handlePaused(params as PausedEvent));
+    client.on('Debugger.resumed', () => {
+      this.#paused = undefined;
+    });
+    client.on('Debugger.breakpointResolved', ({breakpointId, location}) => {
+      this.#breakpoints.get(breakpointId)?.locations.push(location);
+    });
+
+    // Breakpoint ids belong to the old connection; set everything again.
+    const previous = this.listBreakpoints();
+    this.#breakpoints.clear();
+    for (const spec of previous) {
+      if (!spec.url && !spec.urlRegex) {
+        continue;
+      }
+      const info = await this.#applyBreakpoint(client, spec).catch(() => undefined);
+      if (info) {
+        this.#breakpoints.set(info.id, info);
+      }
+    }
+    if (this.#pauseOnExceptions !== 'none') {
+      await client.Debugger.setPauseOnExceptions({state: this.#pauseOnExceptions});
+    }
+    await this.#updateSkipPauses(client);
+  }
+
+  async #applyBreakpoint(client: CDP.Client, spec: BreakpointSpec): Promise<BreakpointInfo> {
+    const base: BreakpointSpec = {
+      url: spec.url,
+      urlRegex: spec.urlRegex,
+      scriptId: spec.scriptId,
+      lineNumber: spec.lineNumber,
+      columnNumber: spec.columnNumber,
+      condition: spec.condition,
+      original: spec.original,
+      logpoint: spec.logpoint,
+    };
+    if (spec.url || spec.urlRegex) {
+      const result = await client.Debugger.setBreakpointByUrl({
+        url: spec.url,
+        urlRegex: spec.urlRegex,
+        lineNumber: spec.lineNumber,
+        columnNumber: spec.columnNumber,
+        condition: spec.condition,
+      });
+      return {...base, id: result.breakpointId, locations: result.locations};
+    }
+    if (!spec.scriptId) {
+      throw new Error('A breakpoint needs a url, urlRegex, or scriptId.');
+    }
+    const result = await client.Debugger.setBreakpoint({
+      location: {
+        scriptId: spec.scriptId,
+        lineNumber: spec.lineNumber,
+        columnNumber: spec.columnNumber,
+      },
+      condition: spec.condition,
+    });
+    return {...base, id: result.breakpointId, locations: [result.actualLocation]};
+  }
+
+  /**
+   * Pauses stay skipped unless a breakpoint or exception pausing needs them.
+   * Logpoint conditions only run while pauses are allowed, so logpoints lift
+   * the skip too; #handlePaused then resumes anything that would stop.
+   */
+  async #updateSkipPauses(client: CDP.Client): Promise<void> {
+    const hasLogpoints = Array.from(this.#breakpoints.values()).some(info => info.logpoint);
+    await client.Debugger.setSkipAllPauses({skip: !this.#pausesWanted() && !hasLogpoints});
+  }
+
+  /** Whether a real breakpoint or pause-on-exceptions asks the page to stop. */
+  #pausesWanted(): boolean {
+    return (
+      this.#pauseOnExceptions !== 'none' ||
+      Array.from(this.#breakpoints.values()).some(info => !info.logpoint)
+    );
+  }
+
+  #handlePaused(event: PausedEvent): void {
+    if (!this.#pausesWanted()) {
+      // Only logpoints are set: a `debugger;` statement must not freeze the app.
+      void this.#client?.Debugger.resume({}).catch(() => {});
+      return;
+    }
+    const state: PausedState = {
+      reason: event.reason,
+      at: new Date(),
+      hitBreakpoints: event.hitBreakpoints ?? [],
+      dataObjectId: event.data?.objectId,
+      dataDescription: event.data?.description,
+      callFrames: event.callFrames.map(frame => ({
+        callFrameId: frame.callFrameId,
+        functionName: frame.functionName,
+        url: frame.url,
+        scriptId: frame.location.scriptId,
+        lineNumber: frame.location.lineNumber,
+        columnNumber: frame.location.columnNumber ?? 0,
+        thisObjectId: frame.this.objectId,
+        scopeChain: frame.scopeChain.map(scope => ({
+          type: scope.type,
+          name: scope.name,
+          objectId: scope.object.objectId,
+        })),
+      })),
+    };
+    this.#paused = state;
+    for (const waiter of this.#pauseWaiters) {
+      waiter(state);
+    }
+    this.#pauseWaiters.clear();
+  }
+
+  #waitForPause(timeoutMs: number): Promise<PausedState | undefined> {
+    return new Promise(resolve => {
+      const waiter = (state: PausedState) => {
+        clearTimeout(timer);
+        resolve(state);
+      };
+      const timer = setTimeout(() => {
+        this.#pauseWaiters.delete(waiter);
+        resolve(undefined);
+      }, timeoutMs);
+      timer.unref();
+      this.#pauseWaiters.add(waiter);
+    });
+  }
+
+  async #requirePaused(): Promise<CDP.Client> {
+    if (!this.#paused) {
+      throw new Error('The page is not paused.');
+    }
+    return this.#getClient();
+  }
+
+  async #getClient(): Promise<CDP.Client> {
+    // The session's onClientOpened hook has already attached to this client.
+    return this.#client ?? this.#session.getClient();
+  }
+}
+
+/**
+ * `a={x} b={y}` → `console.log("a=", (x), "b=", (y)), false`: logs in the
+ * paused frame's scope and never actually pauses.
+ */
+export function buildLogpointCondition(logpoint: LogpointSpec): string {
+  const args: string[] = [];
+  const pattern = /\{([^{}]+)\}/g;
+  let last = 0;
+  for (const match of logpoint.template.matchAll(pattern)) {
+    const text = logpoint.template.slice(last, match.index).trim();
+    if (text) {
+      args.push(JSON.stringify(text));
+    }
+    args.push(`(${match[1]})`);
+    last = match.index + match[0].length;
+  }
+  const rest = logpoint.template.slice(last).trim();
+  if (rest) {
+    args.push(JSON.stringify(rest));
+  }
+  const log = `console.${logpoint.level}(${args.join(', ')})`;
+  const guarded = logpoint.condition ? `(${logpoint.condition}) && ${log}` : log;
+  return `${guarded}, false\n//# sourceURL=${LOGPOINT_URL_PREFIX}${logpoint.id}`;
+}
@@ -1,4 +1,4 @@
-import {PageSession} from './pageSession.js';
+import {PageSession, type ConnectionStateEvent} from './pageSession.js';
 
 const TEXT_SNIPPET_LIMIT = 200;
 const OUTER_HTML_SNIPPET_LIMIT = 400;
@@ -9,6 +9,9 @@ export class DomInspector {
 
   constructor(session: PageSession) {
     this.#session = session;
+    this.#session.onConnectionStateChange(event =>
+      this.#handleConnectionState(event),
+    );
   }
 
   async describeSelector(params: {
@@ -212,6 +215,17 @@ export class DomInspector {
     return map;
   }
 
+  #handleConnectionState(event: ConnectionStateEvent): void {
+    if (event.state !== 'connected' || !event.reconnected) {
+      return;
+    }
+    if (!this.#accessibilityEnabled) {
+      return;
+    }
+    this.#accessibilityEnabled = false;
+    void this.#ensureAccessibilityEnabled();
+  }
+
   async #ensureAccessibilityEnabled(): Promise<void> {
     if (this.#accessibilityEnabled) {
       return;
@@ -0,0 +1,235 @@
+import type {NetworkRedirectHop, NetworkRequestRecord} from './networkRecorder.js';
+
+export interface HarHeader {
+  name: string;
+  value: string;
+}
+
+export interface HarTimings {
+  blocked: number;
+  dns: number;
+  connect: number;
+  ssl: number;
+  send: number;
+  wait: number;
+  receive: number;
+}
+
+export interface HarEntry {
+  startedDateTime: string;
+  time: number;
+  request: {
+    method: string;
+    url: string;
+    httpVersion: string;
+    headers: HarHeader[];
+    queryString: Array<{name: string; value: string}>;
+    cookies: unknown[];
+    headersSize: number;
+    bodySize: number;
+    postData?: {mimeType: string; text: string};
+  };
+  response: {
+    status: number;
+    statusText: string;
+    httpVersion: string;
+    headers: HarHeader[];
+    cookies: unknown[];
+    content: {
+      size: number;
+      mimeType: string;
+      text?: string;
+      encoding?: string;
+    };
+    redirectURL: string;
+    headersSize: number;
+    bodySize: number;
+    _error?: string;
+  };
+  cache: Record<string, never>;
+  timings: HarTimings;
+  _requestId?: string;
+  _resourceType?: string;
+}
+
+export interface HarLog {
+  log: {
+    version: '1.2';
+    creator: {name: string; version: string};
+    pages: unknown[];
+    entries: HarEntry[];
+  };
+}
+
+export interface HarBodies {
+  requestBody?: string | null;
+  responseBody?: {body: string; base64Encoded: boolean} | null;
+}
+
+export function buildHar(
+  records: NetworkRequestRecord[],
+  bodies: Map<string, HarBodies>,
+  creator: {name: string; version: string},
+): HarLog {
+  return {
+    log: {
+      version: '1.2',
+      creator,
+      pages: [],
+      entries: records.flatMap(record => [
+        ...(record.redirects ?? []).map((hop, index, hops) =>
+          toHarEntry(redirectHopRecord(record, hop), undefined, hops[index + 1]?.url ?? record.url),
+        ),
+        toHarEntry(record, bodies.get(record.requestId)),
+      ]),
+    },
+  };
+}
+
+/** Parse HAR JSON and return its entries, rejecting anything that is not HAR. */
+export function parseHar(text: string): HarEntry[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (error) {
+    throw new Error(
+      `HAR is not valid JSON: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+  const entries = (parsed as {log?: {entries?: unknown}})?.log?.entries;
+  if (!Array.isArray(entries)) {
+    throw new Error('HAR is missing log.entries.');
+  }
+  return entries as HarEntry[];
+}
+
+/**
+ * Present an earlier redirect hop as a record of its own. Bodies are not
+ * kept for hops, and Chrome reports them under the final request's id.
+ */
+function redirectHopRecord(record: NetworkRequestRecord, hop: NetworkRedirectHop): NetworkRequestRecord {
+  return {
+    requestId: record.requestId,
+    sequence: record.sequence,
+    url: hop.url,
+    method: hop.method,
+    resourceType: record.resourceType,
+    startTime: hop.startTime,
+    wallTime: hop.wallTime,
+    endTime: hop.endTime,
+    status: hop.status,
+    statusText: hop.statusText,
+    requestHeaders: hop.requestHeaders,
+    responseHeaders: hop.responseHeaders,
+    timing: hop.timing,
+  };
+}
+
+function toHarEntry(
+  record: NetworkRequestRecord,
+  bodies?: HarBodies,
+  redirectURL?: string,
+): HarEntry {
+  const total =
+    record.endTime !== undefined ? Math.max(0, (record.endTime - record.startTime) * 1000) : -1;
+  const startedMs = record.wallTime !== undefined ? record.wallTime * 1000 : Date.now();
+  const requestHeaders = toHarHeaders(record.requestHeaders);
+  const responseHeaders = toHarHeaders(record.responseHeaders);
+  const mimeType = record.mimeType ?? headerValue(responseHeaders, 'content-type') ?? 'x-unknown';
+  const requestBody = bodies?.requestBody;
+  const responseBody = bodies?.responseBody;
+
+  return {
+    startedDateTime: new Date(startedMs).toISOString(),
+    time: Math.max(0, total),
+    request: {
+      method: record.method,
+      url: record.url,
+      httpVersion: 'HTTP/1.1',
+      headers: requestHeaders,
+      queryString: parseQueryString(record.url),
+      cookies: [],
+      headersSize: -1,
+      bodySize: record.requestBodySize ?? (requestBody ? requestBody.length : 0),
+      postData:
+        requestBody != null
+          ? {
+              mimeType: headerValue(requestHeaders, 'content-type') ?? 'application/octet-stream',
+              text: requestBody,
+            }
+          : undefined,
+    },
+    response: {
+      status: record.status ?? 0,
+      statusText: record.statusText ?? '',
+      httpVersion: 'HTTP/1.1',
+      headers: responseHeaders,
+      cookies: [],
+      content: {
+        size: responseBody
+          ? responseBody.base64Encoded
+            ? Buffer.from(responseBody.body, 'base64').length
+            : Buffer.byteLength(responseBody.body)
+          : record.responseBodySize ?? 0,
+        mimeType,
+        text: responseBody?.body,
+        encoding: responseBody?.base64Encoded ? 'base64' : undefined,
+      },
+      redirectURL: headerValue(responseHeaders, 'location') ?? redirectURL ?? '',
+      headersSize: -1,
+      bodySize: record.encodedDataLength ?? -1,
+      _error: record.errorText,
+    },
+    cache: {},
+    timings: toHarTimings(record, total),
+    _requestId: record.requestId,
+    _resourceType: record.resourceType,
+  };
+}
+
+function toHarTimings(record: NetworkRequestRecord, total: number): HarTimings {
+  const timing = record.timing;
+  if (!timing) {
+    return {
+      blocked: -1,
+      dns: -1,
+      connect: -1,
+      ssl: -1,
+      send: 0,
+      wait: Math.max(0, total),
+      receive: 0,
+    };
+  }
+  return {
+    blocked: timing.queued ?? -1,
+    dns: timing.dns ?? -1,
+    connect: timing.connect ?? -1,
+    ssl: timing.ssl ?? -1,
+    send: timing.send ?? 0,
+    wait: timing.wait ?? 0,
+    receive: timing.receive ?? 0,
+  };
+}
+
+function toHarHeaders(headers?: Record<string, unknown>): HarHeader[] {
+  if (!headers) {
+    return [];
+  }
+  return Object.entries(headers).map(([name, value]) => ({name, value: String(value)}));
+}
+
+function headerValue(headers: HarHeader[], name: string): string | undefined {
+  const lower = name.toLowerCase();
+  return headers.find(header => header.name.toLowerCase() === lower)?.value;
+}
+
+function parseQueryString(url: string): Array<{name: string; value: string}> {
+  try {
+    return Array.from(new URL(url).searchParams.entries()).map(([name, value]) => ({
+      name,
+      value,
+    }));
+  } catch {
+    return [];
+  }
+}
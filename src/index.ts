@@ -4,26 +4,50 @@ import {StdioServerTransport} from '@modelcontextprotocol/sdk/server/stdio.js';
 import {z} from 'zod';
 import type {ZodRawShape} from 'zod';
 
-import {LogKind, PageSession} from './pageSession.js';
+import {
+  DEFAULT_OBJECT_GROUP,
+  type EvaluateResult,
+  LOG_KINDS,
+  type PageLogEntry,
+  type PageSession,
+} from './pageSession.js';
+import type {FrameLocation, OriginalLocation} from './scriptCatalog.js';
+import {compileSearchPattern} from './searchPattern.js';
+import {LogFileWriter} from './logPersistence.js';
+import {DEFAULT_TARGET_NAME, SessionRegistry} from './sessionRegistry.js';
+import {
+  assertPageEndpoint,
+  createEndpointResolver,
+  describeMatcher,
+  formatDevtoolsHost,
+  parseDevtoolsHost,
+  type DevtoolsHost,
+  type EndpointResolver,
+  type TargetMatcher,
+} from './targetDiscovery.js';
 import {registerDomTools} from './tools/domTools.js';
 import {registerDomActions} from './tools/domActions.js';
 import {registerNavigationTools} from './tools/navigationTools.js';
 import {registerStorageTools} from './tools/storageTools.js';
-import {registerNetworkTools} from './tools/networkTools.js';
+import {registerNetworkTools, type NetworkToolOptions} from './tools/networkTools.js';
+import {parseTimeBound, registerLogTools} from './tools/logTools.js';
 import {registerRemoteKeyTools} from './tools/remoteKeys.js';
 import {registerOverlayTools} from './tools/overlayTools.js';
 import {registerEventListenerTools} from './tools/eventListenerTools.js';
 import {registerConsoleStreamTools} from './tools/consoleStreamTools.js';
+import {registerTargetTools, targetArgShape} from './tools/targetTools.js';
+import {registerRuntimeTools} from './tools/runtimeTools.js';
+import {registerScenarioTools} from './tools/scenarioTools.js';
+import {registerDebuggerTools} from './tools/debuggerTools.js';
+import {registerScriptTools} from './tools/scriptTools.js';
+import {registerLogResources} from './resources/logResources.js';
 import {registerStaticResources} from './resources/staticResources.js';
 
-const LOG_KIND_TUPLE: [LogKind, ...LogKind[]] = [
-  'console',
-  'exception',
-  'log',
-];
+const LOG_KIND_TUPLE = LOG_KINDS;
 const SUPPORTED_LOG_KINDS = LOG_KIND_TUPLE;
 
 const evaluateArgsShape = {
+  ...targetArgShape,
   expression: z
     .string()
     .min(1, 'Provide a JavaScript expression to evaluate.'),
@@ -34,12 +58,33 @@ const evaluateArgsShape = {
   returnByValue: z
     .boolean()
     .default(true)
-    .describe('Return primitive values instead of object previews.'),
+    .describe(
+      'Return primitive values instead of object previews. When false, objects come back as a handle for runtime_get_properties.',
+    ),
+  objectGroup: z
+    .string()
+    .min(1)
+    .optional()
+    .describe(
+      `Object group that owns returned handles (default ${DEFAULT_OBJECT_GROUP}). Release it with runtime_release_object_group.`,
+    ),
+  callFrameId: z
+    .string()
+    .min(1)
+    .optional()
+    .describe('While paused, evaluate in this call frame (from debugger_get_call_stack) so locals are in scope.'),
+  frameIndex: z
+    .number()
+    .int()
+    .min(0)
+    .optional()
+    .describe('While paused, evaluate in the frame at this index of the call stack (0 = top).'),
 } satisfies ZodRawShape;
 const evaluateArgsSchema = z.object(evaluateArgsShape);
 type EvaluateArgs = z.infer<typeof evaluateArgsSchema>;
 
 const logsArgsShape = {
+  ...targetArgShape,
   limit: z
     .number()
     .int()
@@ -55,11 +100,61 @@ const logsArgsShape = {
     .boolean()
     .default(true)
     .describe('Return newest entries first (default true).'),
+  search: z
+    .string()
+    .min(1)
+    .optional()
+    .describe('Case-insensitive text or /regex/flags matched against messages.'),
+  levels: z
+    .array(z.string().min(1))
+    .optional()
+    .describe('Only these levels (e.g., ["warning", "error"]); warn is accepted for warning.'),
+  url: z
+    .string()
+    .min(1)
+    .optional()
+    .describe('Only entries whose URL contains this text.'),
+  source: z
+    .string()
+    .min(1)
+    .optional()
+    .describe('Only entries whose source contains this text (e.g., network, devtools-connection).'),
+  since: z
+    .string()
+    .min(1)
+    .optional()
+    .describe('ISO timestamp, a duration ago (90s, 15m, 2h), or "last-navigation".'),
+  until: z
+    .string()
+    .min(1)
+    .optional()
+    .describe('ISO timestamp or a duration ago.'),
+  afterId: z
+    .number()
+    .int()
+    .min(0)
+    .optional()
+    .describe('Cursor: return entries after this id, oldest first, for paging forward.'),
+  groupRepeats: z
+    .enum(['off', 'consecutive', 'all'])
+    .default('off')
+    .describe('Collapse identical messages into one line with a count.'),
+  sourceMapped: z
+    .boolean()
+    .default(true)
+    .describe('Show original source locations when the script has a source map.'),
 } satisfies ZodRawShape;
 const logsArgsSchema = z.object(logsArgsShape);
 type LogsArgs = z.infer<typeof logsArgsSchema>;
 
+const clearLogsArgsShape = {
+  ...targetArgShape,
+} satisfies ZodRawShape;
+const clearLogsArgsSchema = z.object(clearLogsArgsShape);
+type ClearLogsArgs = z.infer<typeof clearLogsArgsSchema>;
+
 const screenshotArgsShape = {
+  ...targetArgShape,
   format: z
     .enum(['png', 'jpeg', 'webp'])
     .default('png')
@@ -104,35 +199,103 @@ function resolveEndpoint(argv: string[]): string | undefined {
 function assertEndpoint(endpoint: string | undefined): string {
   if (!endpoint) {
     throw new Error(
-      'Missing page WebSocket endpoint. Pass --endpoint ws://... or set PAGE_WS_ENDPOINT.',
+      'Missing page target. Pass --endpoint ws://... (or PAGE_WS_ENDPOINT), or --devtools-host host:port (or DEVTOOLS_HOST).',
     );
   }
   try {
-    const url = new URL(endpoint);
-    if (!url.protocol.startsWith('ws')) {
-      throw new Error('WebSocket endpoint must use ws:// or wss://');
-    }
+    return assertPageEndpoint(endpoint);
   } catch (error) {
     const message =
       error instanceof Error ? error.message : 'Invalid endpoint URL';
     throw new Error(`Invalid --endpoint value: ${message}`);
   }
-  return endpoint;
+}
+
+interface ConnectionConfig {
+  endpoint: string | EndpointResolver;
+  devtoolsHost?: DevtoolsHost;
+  /** Human-readable summary of how the page target is located. */
+  description: string;
+}
+
+function resolveConnectionConfig(argv: string[]): ConnectionConfig {
+  const hostValue =
+    getArgValue(argv, ['--devtools-host']) ?? process.env.DEVTOOLS_HOST;
+  if (!hostValue) {
+    const endpoint = assertEndpoint(resolveEndpoint(argv));
+    return {endpoint, description: endpoint};
+  }
+
+  let devtoolsHost: DevtoolsHost;
+  try {
+    devtoolsHost = parseDevtoolsHost(hostValue);
+  } catch (error) {
+    const message =
+      error instanceof Error ? error.message : 'Invalid DevTools host';
+    throw new Error(`Invalid --devtools-host value: ${message}`);
+  }
+  const matcher: TargetMatcher = {
+    title: getArgValue(argv, ['--target-title']) ?? process.env.TARGET_TITLE,
+    url: getArgValue(argv, ['--target-url']) ?? process.env.TARGET_URL,
+  };
+  return {
+    endpoint: createEndpointResolver(devtoolsHost, matcher),
+    devtoolsHost,
+    description: `${formatDevtoolsHost(devtoolsHost)} (${describeMatcher(matcher)})`,
+  };
 }
 
 function createServerInstructions(endpointHint: string): string {
   return [
     'Minimal MCP server that connects directly to a Chrome DevTools page socket.',
-    'Provide the page WebSocket URL with --endpoint or PAGE_WS_ENDPOINT.',
-    `Example: webos-devtools-mcp --endpoint ${endpointHint}`,
-    'Tools: evaluate_expression, list_logs, clear_logs, take_screenshot.',
+    'Provide the page WebSocket URL with --endpoint or PAGE_WS_ENDPOINT, or a',
+    'DevTools HTTP host with --devtools-host plus --target-title/--target-url.',
+    `Attached to: ${endpointHint}`,
+    'Tools: evaluate_expression, list_logs, clear_logs, take_screenshot, list_targets.',
+    'Attach more pages with target_attach; most tools accept an optional target name.',
     'Filter tool categories via --tools=dom,network or --without-tools=remote.',
   ].join('\n');
 }
 
-function formatEntries(entries: Awaited<ReturnType<PageSession['getEntries']>>): string {
+type GroupedLogEntry = PageLogEntry & {count?: number; lastTimestamp?: Date};
+
+function groupRepeatedEntries(
+  entries: PageLogEntry[],
+  mode: 'off' | 'consecutive' | 'all',
+): GroupedLogEntry[] {
+  if (mode === 'off') {
+    return entries;
+  }
+  const keyOf = (entry: PageLogEntry) =>
+    `${entry.kind}\u0000${entry.level}\u0000${entry.url ?? ''}\u0000${entry.message}`;
+  const grouped: GroupedLogEntry[] = [];
+  const byKey = new Map<string, GroupedLogEntry>();
+  for (const entry of entries) {
+    const key = keyOf(entry);
+    const existing =
+      mode === 'all'
+        ? byKey.get(key)
+        : grouped.length && keyOf(grouped[grouped.length - 1]!) === key
+          ? grouped[grouped.length - 1]
+          : undefined;
+    if (existing) {
+      existing.count = (existing.count ?? 1) + 1;
+      existing.lastTimestamp = entry.timestamp;
+      continue;
+    }
+    const copy: GroupedLogEntry = {...entry};
+    grouped.push(copy);
+    byKey.set(key, copy);
+  }
+  return grouped;
+}
+
+function formatEntries(
+  entries: GroupedLogEntry[],
+  originals: Map<number, OriginalLocation> = new Map(),
+): string {
   if (!entries.length) {
-    return 'No log entries collected yet.';
+    return 'No log entries matched.';
   }
   return entries
     .map(entry => {
@@ -141,9 +304,14 @@ function formatEntries(entries: Awaited<ReturnType<PageSession['getEntries']>>):
         entry.timestamp.toISOString(),
         entry.kind.toUpperCase(),
         entry.level.toUpperCase(),
-        entry.message,
+        entry.count && entry.count > 1
+          ? `${entry.message} (×${entry.count}, last ${entry.lastTimestamp?.toISOString()})`
+          : entry.message,
       ];
-      if (entry.url) {
+      const original = originals.get(entry.id);
+      if (original) {
+        parts.push(`@ ${formatOriginalLocation(original, entry.location)}`);
+      } else if (entry.url) {
         parts.push(`@ ${entry.url}`);
       }
       if (entry.source) {
@@ -154,8 +322,55 @@ function formatEntries(entries: Awaited<ReturnType<PageSession['getEntries']>>):
     .join('\n');
 }
 
+function formatOriginalLocation(original: OriginalLocation, generated?: FrameLocation): string {
+  const where = `${original.url}:${original.lineNumber + 1}:${original.columnNumber + 1}`;
+  const name = original.functionName ? ` in ${original.functionName}` : '';
+  const from = generated
+    ? ` (${generated.url || '<anonymous>'}:${generated.lineNumber + 1}:${generated.columnNumber + 1})`
+    : '';
+  return `${where}${name}${from}`;
+}
+
+/** Map each entry's top frame through its script's source map, if any. */
+async function resolveOriginalLocations(
+  session: PageSession,
+  entries: PageLogEntry[],
+): Promise<Map<number, OriginalLocation>> {
+  const originals = new Map<number, OriginalLocation>();
+  await Promise.all(
+    entries.map(async entry => {
+      if (!entry.location) {
+        return;
+      }
+      const original = await session.scripts.resolve(entry.location).catch(() => undefined);
+      if (original) {
+        originals.set(entry.id, original);
+      }
+    }),
+  );
+  return originals;
+}
+
+function formatEvaluateResult(result: EvaluateResult): string {
+  const type = result.subtype ? `${result.type} (${result.subtype})` : result.type;
+  const lines = [`Type: ${type}`, `Value: ${result.value}`];
+  if (result.description && result.description !== result.value) {
+    lines.push(`Description: ${result.description}`);
+  }
+  if (result.preview) {
+    lines.push(`Preview: ${result.preview}`);
+  }
+  if (result.objectId) {
+    lines.push(
+      `Handle: ${result.objectId} (group ${result.objectGroup ?? DEFAULT_OBJECT_GROUP})`,
+    );
+  }
+  return lines.join('\n');
+}
+
 const ALL_TOOL_CATEGORIES = [
   'core',
+  'runtime',
   'dom',
   'dom-actions',
   'navigation',
@@ -165,6 +380,10 @@ const ALL_TOOL_CATEGORIES = [
   'overlay',
   'events',
   'console',
+  'targets',
+  'scenario',
+  'debugger',
+  'scripts',
 ] as const;
 
 type ToolCategory = (typeof ALL_TOOL_CATEGORIES)[number];
@@ -241,27 +460,91 @@ function getArgValue(argv: string[], names: string[]): string | undefined {
   return undefined;
 }
 
-function registerCoreTools(server: McpServer, session: PageSession): void {
+function createLogFileWriter(argv: string[]): LogFileWriter | undefined {
+  const path = getArgValue(argv, ['--log-file']) ?? process.env.LOG_FILE;
+  if (!path) {
+    return undefined;
+  }
+  return new LogFileWriter({
+    path,
+    maxBytes: parsePositiveInt(
+      getArgValue(argv, ['--log-file-max-bytes']) ?? process.env.LOG_FILE_MAX_BYTES,
+      '--log-file-max-bytes',
+    ),
+    maxFiles: parsePositiveInt(
+      getArgValue(argv, ['--log-file-max-files']) ?? process.env.LOG_FILE_MAX_FILES,
+      '--log-file-max-files',
+    ),
+  });
+}
+
+function resolveNetworkToolOptions(argv: string[]): NetworkToolOptions {
+  return {
+    captureOnStart:
+      argv.includes('--capture-network-on-start') ||
+      isTruthyEnv(process.env.CAPTURE_NETWORK_ON_START),
+    maxEntries: parsePositiveInt(
+      getArgValue(argv, ['--network-max-entries']) ?? process.env.NETWORK_MAX_ENTRIES,
+      '--network-max-entries',
+    ),
+    maxBytes: parsePositiveInt(
+      getArgValue(argv, ['--network-max-bytes']) ?? process.env.NETWORK_MAX_BYTES,
+      '--network-max-bytes',
+    ),
+  };
+}
+
+function parsePositiveInt(value: string | undefined, flag: string): number | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed <= 0) {
+    throw new Error(`Invalid ${flag} value: expected a positive integer, got ${value}`);
+  }
+  return parsed;
+}
+
+function isTruthyEnv(value: string | undefined): boolean {
+  return value !== undefined && ['1', 'true', 'yes', 'on'].includes(value.toLowerCase());
+}
+
+function registerCoreTools(server: McpServer, sessions: SessionRegistry): void {
   server.registerTool(
     'evaluate_expression',
     {
-      description: 'Evaluate a JavaScript expression in the attached page.',
+      description:
+        'Evaluate a JavaScript expression in the attached page, or in a paused call frame (callFrameId or frameIndex) to reach local variables.',
       inputSchema: evaluateArgsShape,
     },
-    async ({expression, awaitPromise = true, returnByValue = true}: EvaluateArgs) => {
+    async ({
+      target,
+      expression,
+      awaitPromise = true,
+      returnByValue = true,
+      objectGroup,
+      callFrameId,
+      frameIndex,
+    }: EvaluateArgs) => {
       try {
+        if (callFrameId !== undefined && frameIndex !== undefined) {
+          throw new Error('Provide callFrameId or frameIndex, not both.');
+        }
+        const session = sessions.get(target);
         const result = await session.evaluate(expression, {
           awaitPromise,
           returnByValue,
+          objectGroup,
+          callFrameId:
+            frameIndex !== undefined
+              ? session.debugger.callFrame(frameIndex).callFrameId
+              : callFrameId,
         });
-        const description = result.description
-          ? `\nDescription: ${result.description}`
-          : '';
         return {
           content: [
             {
               type: 'text',
-              text: `Type: ${result.type}\nValue: ${result.value}${description}`,
+              text: formatEvaluateResult(result),
             },
           ],
         };
@@ -289,33 +572,94 @@ function registerCoreTools(server: McpServer, session: PageSession): void {
       inputSchema: logsArgsShape,
     },
     async ({
+      target,
       limit = 20,
       kinds,
       newestFirst = true,
+      search,
+      levels,
+      url,
+      source,
+      since,
+      until,
+      afterId,
+      groupRepeats = 'off',
+      sourceMapped = true,
     }: LogsArgs): Promise<{
       content: Array<{type: 'text'; text: string}>;
+      isError?: boolean;
     }> => {
-      const entries = session.getEntries({
-        limit,
-        kinds: kinds?.length ? kinds : undefined,
-        newestFirst,
-      });
-      const text = formatEntries(entries);
-      return {
-        content: [
-          {
-            type: 'text',
-            text,
-          },
-        ],
-      };
+      try {
+        const session = sessions.get(target);
+        let sinceDate: Date | undefined;
+        let navigationAfterId: number | undefined;
+        if (since === 'last-navigation') {
+          const navigation = session.lastNavigation;
+          if (!navigation) {
+            throw new Error('No navigation has been seen on this target yet.');
+          }
+          navigationAfterId = navigation.afterEntryId;
+        } else if (since) {
+          sinceDate = parseTimeBound(since);
+        }
+        // A navigation boundary acts as a cursor, so results page forward from it.
+        const cursors = [afterId, navigationAfterId].filter(
+          (id): id is number => id !== undefined,
+        );
+        const cursor = cursors.length ? Math.max(...cursors) : undefined;
+        const {entries, remaining} = session.queryEntries({
+          limit,
+          kinds: kinds?.length ? kinds : undefined,
+          newestFirst: cursor !== undefined ? false : newestFirst,
+          afterId: cursor,
+          search: search ? compileSearchPattern(search) : undefined,
+          levels,
+          url,
+          source,
+          since: sinceDate,
+          until: until ? parseTimeBound(until) : undefined,
+        });
+        const originals = sourceMapped
+          ? await resolveOriginalLocations(session, entries)
+          : undefined;
+        let text = formatEntries(groupRepeatedEntries(entries, groupRepeats), originals);
+        if (remaining > 0) {
+          const ids = entries.map(entry => entry.id);
+          text +=
+            cursor !== undefined
+              ? `\n\n${remaining} more entr${remaining === 1 ? 'y' : 'ies'}; continue with afterId=${Math.max(...ids)}.`
+              : `\n\n${remaining} older entr${remaining === 1 ? 'y' : 'ies'} not shown.`;
+        }
+        return {
+          content: [
+            {
+              type: 'text',
+              text,
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          isError: true,
+          content: [
+            {
+              type: 'text',
+              text:
+                error instanceof Error
+                  ? `Failed to list logs: ${error.message}`
+                  : 'Failed to list logs.',
+            },
+          ],
+        };
+      }
     },
   );
 
   server.registerTool('clear_logs', {
     description: 'Clear the buffered log entries.',
-  }, async () => {
-    session.clearEntries();
+    inputSchema: clearLogsArgsShape,
+  }, async ({target}: ClearLogsArgs) => {
+    sessions.get(target).clearEntries();
     return {
       content: [
         {
@@ -332,7 +676,7 @@ function registerCoreTools(server: McpServer, session: PageSession): void {
       description: 'Capture a screenshot of the attached page.',
       inputSchema: screenshotArgsShape,
     },
-    async ({format = 'png', quality, fullPage = false}: ScreenshotArgs) => {
+    async ({target, format = 'png', quality, fullPage = false}: ScreenshotArgs) => {
       if (quality !== undefined && format === 'png') {
         return {
           isError: true,
@@ -345,7 +689,7 @@ function registerCoreTools(server: McpServer, session: PageSession): void {
         };
       }
       try {
-        const {data, mimeType} = await session.captureScreenshot({
+        const {data, mimeType} = await sessions.get(target).captureScreenshot({
           format,
           quality,
           captureBeyondViewport: fullPage,
@@ -377,9 +721,22 @@ function registerCoreTools(server: McpServer, session: PageSession): void {
 }
 
 async function main(): Promise<void> {
-  const endpoint = assertEndpoint(resolveEndpoint(process.argv.slice(2)));
-  const session = new PageSession(endpoint);
-  await session.connect();
+  const argv = process.argv.slice(2);
+  const connection = resolveConnectionConfig(argv);
+  const sessions = new SessionRegistry({
+    maxBufferedEntries: parsePositiveInt(
+      getArgValue(argv, ['--log-buffer-size']) ?? process.env.LOG_BUFFER_SIZE,
+      '--log-buffer-size',
+    ),
+    sourceMapsDir:
+      getArgValue(argv, ['--source-maps-dir']) ?? process.env.SOURCE_MAPS_DIR,
+  });
+  const logFile = createLogFileWriter(argv);
+  if (logFile) {
+    sessions.onSessionCreated((session, name) => {
+      session.onEntryRecorded(entry => logFile.append(name, entry));
+    });
+  }
 
   const server = new McpServer(
     {
@@ -388,49 +745,75 @@ async function main(): Promise<void> {
       description: 'Page-scoped Chrome DevTools MCP server',
     },
     {
-      instructions: createServerInstructions(endpoint),
+      instructions: createServerInstructions(connection.description),
     },
   );
 
-  const allowCategory = createToolCategoryFilter(process.argv.slice(2));
+  const allowCategory = createToolCategoryFilter(argv);
 
   if (allowCategory('core')) {
-    registerCoreTools(server, session);
+    registerCoreTools(server, sessions);
+    registerLogTools(server, sessions, {logFile});
+  }
+  if (allowCategory('runtime')) {
+    registerRuntimeTools(server, sessions);
   }
   if (allowCategory('dom')) {
-    registerDomTools(server, session);
+    registerDomTools(server, sessions);
   }
   if (allowCategory('dom-actions')) {
-    registerDomActions(server, session);
+    registerDomActions(server, sessions);
   }
   if (allowCategory('navigation')) {
-    registerNavigationTools(server, session);
+    registerNavigationTools(server, sessions);
   }
   if (allowCategory('storage')) {
-    registerStorageTools(server, session);
+    registerStorageTools(server, sessions);
   }
   if (allowCategory('network')) {
-    registerNetworkTools(server, session);
+    registerNetworkTools(server, sessions, resolveNetworkToolOptions(argv));
   }
   if (allowCategory('remote')) {
-    registerRemoteKeyTools(server, session);
+    registerRemoteKeyTools(server, sessions);
   }
   if (allowCategory('overlay')) {
-    registerOverlayTools(server, session);
+    registerOverlayTools(server, sessions);
   }
   if (allowCategory('events')) {
-    registerEventListenerTools(server, session);
+    registerEventListenerTools(server, sessions);
   }
   if (allowCategory('console')) {
-    registerConsoleStreamTools(server, session);
+    registerConsoleStreamTools(server, sessions);
+  }
+  if (allowCategory('scenario')) {
+    registerScenarioTools(server, sessions);
+  }
+  if (allowCategory('debugger')) {
+    registerDebuggerTools(server, sessions);
+  }
+  if (allowCategory('scripts')) {
+    registerScriptTools(server, sessions);
+  }
+  if (allowCategory('targets')) {
+    registerTargetTools(server, sessions);
   }
   registerStaticResources(server);
+  registerLogResources(server, sessions);
+
+  // Attach after tools register so managers can hook the first connection.
+  await sessions.attach({
+    name: getArgValue(argv, ['--target-name']) ?? DEFAULT_TARGET_NAME,
+    endpoint: connection.endpoint,
+    description: connection.description,
+    devtoolsHost: connection.devtoolsHost,
+  });
 
   const transport = new StdioServerTransport();
   await server.connect(transport);
 
   const shutdown = async () => {
-    await session.dispose();
+    await sessions.disposeAll();
+    await logFile?.flush();
     await server.close();
     process.exit(0);
   };
@@ -0,0 +1,122 @@
+import {appendFile, mkdir, readFile, rename, rm, stat} from 'node:fs/promises';
+import {dirname, resolve} from 'node:path';
+
+import type {PageLogEntry} from './pageSession.js';
+
+export const DEFAULT_LOG_FILE_MAX_BYTES = 5 * 1024 * 1024;
+export const DEFAULT_LOG_FILE_MAX_FILES = 5;
+
+export interface LogFileOptions {
+  path: string;
+  /** Rotate once the active file would grow past this size. */
+  maxBytes?: number;
+  /** Total files kept, including the active one. */
+  maxFiles?: number;
+}
+
+/** One JSONL line: a log entry tagged with the target it came from. */
+export interface PersistedLogEntry extends Omit<PageLogEntry, 'timestamp'> {
+  target: string;
+  timestamp: string;
+}
+
+/**
+ * Appends log entries to a JSONL file, rotating `log.jsonl` →
+ * `log.jsonl.1` → … so a chatty page cannot fill the disk.
+ */
+export class LogFileWriter {
+  #path: string;
+  #maxBytes: number;
+  #maxFiles: number;
+  #size?: number;
+  #queue: Promise<void> = Promise.resolve();
+  #lastError?: string;
+
+  constructor(options: LogFileOptions) {
+    this.#path = resolve(options.path);
+    this.#maxBytes = options.maxBytes ?? DEFAULT_LOG_FILE_MAX_BYTES;
+    this.#maxFiles = Math.max(1, options.maxFiles ?? DEFAULT_LOG_FILE_MAX_FILES);
+  }
+
+  get path(): string {
+    return this.#path;
+  }
+
+  /** Most recent write failure, if any; writes keep being attempted. */
+  get lastError(): string | undefined {
+    return this.#lastError;
+  }
+
+  append(target: string, entry: PageLogEntry): void {
+    const line = `${JSON.stringify(toPersistedEntry(target, entry))}\n`;
+    this.#queue = this.#queue
+      .then(() => this.#write(line))
+      .catch(error => {
+        this.#lastError = error instanceof Error ? error.message : String(error);
+      });
+  }
+
+  /** Wait for queued writes to reach the disk. */
+  async flush(): Promise<void> {
+    await this.#queue;
+  }
+
+  /** Read every persisted entry, oldest file first. Malformed lines are skipped. */
+  async readEntries(): Promise<PersistedLogEntry[]> {
+    await this.flush();
+    const entries: PersistedLogEntry[] = [];
+    for (let index = this.#maxFiles - 1; index >= 0; index--) {
+      let text: string;
+      try {
+        text = await readFile(this.#rotatedPath(index), 'utf8');
+      } catch {
+        continue;
+      }
+      for (const line of text.split('\n')) {
+        if (!line.trim()) {
+          continue;
+        }
+        try {
+          entries.push(JSON.parse(line) as PersistedLogEntry);
+        } catch {
+          // Partially written line from an earlier crash.
+        }
+      }
+    }
+    return entries;
+  }
+
+  async #write(line: string): Promise<void> {
+    if (this.#size === undefined) {
+      await mkdir(dirname(this.#path), {recursive: true});
+      this.#size = await stat(this.#path)
+        .then(stats => stats.size)
+        .catch(() => 0);
+    }
+    const bytes = Buffer.byteLength(line);
+    if (this.#size > 0 && this.#size + bytes > this.#maxBytes) {
+      await this.#rotate();
+    }
+    await appendFile(this.#path, line, 'utf8');
+    this.#size += bytes;
+  }
+
+  async #rotate(): Promise<void> {
+    await rm(this.#rotatedPath(this.#maxFiles - 1), {force: true});
+    for (let index = this.#maxFiles - 2; index >= 0; index--) {
+      await rename(this.#rotatedPath(index), this.#rotatedPath(index + 1)).catch(() => {});
+    }
+    if (this.#maxFiles === 1) {
+      await rm(this.#path, {force: true});
+    }
+    this.#size = 0;
+  }
+
+  #rotatedPath(index: number): string {
+    return index === 0 ? this.#path : `${this.#path}.${index}`;
+  }
+}
+
+export function toPersistedEntry(target: string, entry: PageLogEntry): PersistedLogEntry {
+  return {...entry, target, timestamp: entry.timestamp.toISOString()};
+}
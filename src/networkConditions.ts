@@ -0,0 +1,217 @@
+import type CDP from 'chrome-remote-interface';
+
+import type {ConnectionStateEvent, PageSession} from './pageSession.js';
+
+export interface NetworkConditions {
+  offline: boolean;
+  latencyMs: number;
+  /** Download throughput in kbit/s; 0 means unthrottled. */
+  downloadKbps: number;
+  /** Upload throughput in kbit/s; 0 means unthrottled. */
+  uploadKbps: number;
+  connectionType?: NetworkConnectionType;
+  /** Periodically take the connection offline to mimic an unreliable link. */
+  dropout?: {everyMs: number; durationMs: number};
+  /** Preset the conditions were derived from, if any. */
+  preset?: NetworkConditionsPreset;
+}
+
+export const NETWORK_CONNECTION_TYPES = [
+  'none',
+  'cellular2g',
+  'cellular3g',
+  'cellular4g',
+  'bluetooth',
+  'ethernet',
+  'wifi',
+  'wimax',
+  'other',
+] as const;
+
+export type NetworkConnectionType = (typeof NETWORK_CONNECTION_TYPES)[number];
+
+// Throughput and latency figures follow the Chrome DevTools throttling presets.
+export const NETWORK_CONDITION_PRESETS = {
+  'slow-3G': {
+    offline: false,
+    latencyMs: 2000,
+    downloadKbps: 400,
+    uploadKbps: 400,
+    connectionType: 'cellular3g',
+  },
+  '3G': {
+    offline: false,
+    latencyMs: 563,
+    downloadKbps: 1440,
+    uploadKbps: 675,
+    connectionType: 'cellular3g',
+  },
+  '4G': {
+    offline: false,
+    latencyMs: 165,
+    downloadKbps: 8100,
+    uploadKbps: 8100,
+    connectionType: 'cellular4g',
+  },
+  flaky: {
+    offline: false,
+    latencyMs: 800,
+    downloadKbps: 750,
+    uploadKbps: 250,
+    connectionType: 'wifi',
+    dropout: {everyMs: 20_000, durationMs: 4_000},
+  },
+  offline: {
+    offline: true,
+    latencyMs: 0,
+    downloadKbps: 0,
+    uploadKbps: 0,
+    connectionType: 'none',
+  },
+} as const satisfies Record<string, Omit<NetworkConditions, 'preset'>>;
+
+export type NetworkConditionsPreset = keyof typeof NETWORK_CONDITION_PRESETS;
+
+/**
+ * Applies network throttling and URL blocking to a session and keeps them in
+ * effect across reconnects.
+ */
+export class NetworkConditioner {
+  #session: PageSession;
+  #client?: CDP.Client;
+  #conditions?: NetworkConditions;
+  #blockedUrls: string[] = [];
+  #dropoutTimer?: NodeJS.Timeout;
+  #droppedOut = false;
+
+  constructor(session: PageSession) {
+    this.#session = session;
+    this.#session.onConnectionStateChange(event =>
+      this.#handleConnectionState(event),
+    );
+  }
+
+  /** Active conditions, or undefined when the network is not throttled. */
+  get conditions(): NetworkConditions | undefined {
+    return this.#conditions;
+  }
+
+  get blockedUrls(): string[] {
+    return [...this.#blockedUrls];
+  }
+
+  /** Whether a flaky dropout currently has the connection offline. */
+  get droppedOut(): boolean {
+    return this.#droppedOut;
+  }
+
+  async emulate(conditions: NetworkConditions): Promise<void> {
+    this.#stopDropouts();
+    await this.#applyConditions(conditions, conditions.offline);
+    this.#conditions = conditions;
+    if (conditions.dropout && !conditions.offline) {
+      this.#scheduleDropout(conditions.dropout);
+    }
+  }
+
+  async reset(): Promise<void> {
+    this.#stopDropouts();
+    this.#conditions = undefined;
+    await this.#applyConditions(undefined, false);
+  }
+
+  async blockUrls(patterns: string[]): Promise<void> {
+    const client = await this.#getClient();
+    await client.Network.setBlockedURLs({urls: patterns});
+    this.#blockedUrls = [...patterns];
+  }
+
+  async #applyConditions(
+    conditions: NetworkConditions | undefined,
+    offline: boolean,
+  ): Promise<void> {
+    const client = await this.#getClient();
+    await client.Network.emulateNetworkConditions({
+      offline,
+      latency: conditions?.latencyMs ?? 0,
+      downloadThroughput: toBytesPerSecond(conditions?.downloadKbps),
+      uploadThroughput: toBytesPerSecond(conditions?.uploadKbps),
+      connectionType: conditions?.connectionType,
+    });
+  }
+
+  #scheduleDropout(dropout: {everyMs: number; durationMs: number}): void {
+    this.#dropoutTimer = setTimeout(() => {
+      this.#droppedOut = true;
+      void this.#applyConditions(this.#conditions, true).catch(() => {});
+      this.#dropoutTimer = setTimeout(() => {
+        this.#droppedOut = false;
+        void this.#applyConditions(this.#conditions, false).catch(() => {});
+        this.#scheduleDropout(dropout);
+      }, dropout.durationMs);
+      this.#dropoutTimer.unref();
+    }, dropout.everyMs);
+    this.#dropoutTimer.unref();
+  }
+
+  #stopDropouts(): void {
+    if (this.#dropoutTimer) {
+      clearTimeout(this.#dropoutTimer);
+      this.#dropoutTimer = undefined;
+    }
+    this.#droppedOut = false;
+  }
+
+  async #getClient(): Promise<CDP.Client> {
+    if (this.#client) {
+      return this.#client;
+    }
+    const client = await this.#session.getClient();
+    // Throttling and blocking only take effect once the Network domain is on.
+    await client.Network.enable({});
+    this.#client = client;
+    return client;
+  }
+
+  #handleConnectionState(event: ConnectionStateEvent): void {
+    if (event.state !== 'connected' || !event.client || event.client === this.#client) {
+      return;
+    }
+    this.#client = undefined;
+    const conditions = this.#conditions;
+    const blocked = this.#blockedUrls;
+    void (async () => {
+      if (conditions) {
+        await this.#applyConditions(conditions, conditions.offline || this.#droppedOut);
+      }
+      if (blocked.length) {
+        await this.blockUrls(blocked);
+      }
+    })().catch(() => {});
+  }
+}
+
+export function describeConditions(conditions: NetworkConditions): string {
+  if (conditions.offline) {
+    return conditions.preset ? `${conditions.preset} (offline)` : 'offline';
+  }
+  const parts = [
+    `latency ${conditions.latencyMs} ms`,
+    `down ${conditions.downloadKbps ? `${conditions.downloadKbps} kbps` : 'unthrottled'}`,
+    `up ${conditions.uploadKbps ? `${conditions.uploadKbps} kbps` : 'unthrottled'}`,
+  ];
+  if (conditions.connectionType) {
+    parts.push(conditions.connectionType);
+  }
+  if (conditions.dropout) {
+    parts.push(
+      `offline ${conditions.dropout.durationMs} ms every ${conditions.dropout.everyMs} ms`,
+    );
+  }
+  return `${conditions.preset ? `${conditions.preset}: ` : ''}${parts.join(', ')}`;
+}
+
+function toBytesPerSecond(kbps: number | undefined): number {
+  // CDP treats -1 as "no throttling".
+  return kbps ? Math.round((kbps * 1000) / 8) : -1;
+}
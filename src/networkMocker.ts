@@ -0,0 +1,326 @@
+import type CDP from 'chrome-remote-interface';
+
+import type {HarEntry} from './har.js';
+import type {ConnectionStateEvent, PageSession} from './pageSession.js';
+import {compileRegexLiteral, escapeRegex, parseRegexLiteral} from './searchPattern.js';
+
+// Replayed bodies are already decoded, so these would corrupt the response.
+const HAR_REPLAY_SKIPPED_HEADERS = new Set([
+  'content-encoding',
+  'content-length',
+  'transfer-encoding',
+]);
+
+export type MockAction = 'fulfill' | 'fail' | 'delay' | 'modify';
+
+export interface MockDefinition {
+  /** URL glob (`*`, `?`) or `/regex/flags`. */
+  urlPattern: string;
+  method?: string;
+  resourceTypes?: string[];
+  action: MockAction;
+  status?: number;
+  headers?: Record<string, string>;
+  body?: string;
+  /** Treat body as already base64-encoded (binary payloads). */
+  bodyBase64?: boolean;
+  /** Network.ErrorReason used when action is `fail` (default Failed). */
+  errorReason?: string;
+  /** Delay before the action is applied; the whole effect for `delay`. */
+  delayMs?: number;
+  /** Request overrides applied when action is `modify`. */
+  modify?: {
+    url?: string;
+    method?: string;
+    headers?: Record<string, string>;
+    postData?: string;
+  };
+  /** Stop matching after this many hits. */
+  times?: number;
+  /** Where the rule came from (e.g. an imported HAR file). */
+  source?: string;
+}
+
+export interface MockRule extends MockDefinition {
+  id: string;
+  hits: number;
+  lastHitAt?: Date;
+  lastHitUrl?: string;
+  createdAt: Date;
+}
+
+interface RequestPausedEvent {
+  requestId: string;
+  resourceType?: string;
+  request: {
+    url: string;
+    method: string;
+    headers?: Record<string, string>;
+  };
+}
+
+export class NetworkMocker {
+  #session: PageSession;
+  #client?: CDP.Client;
+  #rules = new Map<string, MockRule>();
+  #matchers = new Map<string, RegExp>();
+  #nextId = 1;
+  #enabled = false;
+
+  constructor(session: PageSession) {
+    this.#session = session;
+    this.#session.onConnectionStateChange(event =>
+      this.#handleConnectionState(event),
+    );
+  }
+
+  async add(definition: MockDefinition): Promise<MockRule> {
+    const matcher = compileUrlPattern(definition.urlPattern);
+    const rule: MockRule = {
+      ...definition,
+      method: definition.method?.toUpperCase(),
+      id: `mock-${this.#nextId++}`,
+      hits: 0,
+      createdAt: new Date(),
+    };
+    this.#rules.set(rule.id, rule);
+    this.#matchers.set(rule.id, matcher);
+    try {
+      await this.#ensureEnabled();
+    } catch (error) {
+      // Do not leave a rule behind that the caller was told failed.
+      this.#rules.delete(rule.id);
+      this.#matchers.delete(rule.id);
+      throw error;
+    }
+    return rule;
+  }
+
+  /**
+   * Register one fulfill rule per unique method + URL in a HAR capture so the
+   * recorded responses are served back. The first entry for a URL wins.
+   */
+  async replayHar(
+    entries: HarEntry[],
+    options: {source: string; urlPattern?: string},
+  ): Promise<MockRule[]> {
+    const filter = options.urlPattern ? compileUrlPattern(options.urlPattern) : undefined;
+    const seen = new Set<string>();
+    const rules: MockRule[] = [];
+    for (const entry of entries) {
+      const {request, response} = entry;
+      if (!request?.url || !response || !response.status) {
+        continue;
+      }
+      if (filter && !filter.test(request.url)) {
+        continue;
+      }
+      const key = `${request.method} ${request.url}`;
+      if (seen.has(key)) {
+        continue;
+      }
+      seen.add(key);
+      const headers: Record<string, string> = {};
+      for (const header of response.headers ?? []) {
+        if (!HAR_REPLAY_SKIPPED_HEADERS.has(header.name.toLowerCase())) {
+          headers[header.name] = header.value;
+        }
+      }
+      rules.push(
+        await this.add({
+          urlPattern: `/^${escapeRegex(request.url)}$/`,
+          method: request.method,
+          action: 'fulfill',
+          status: response.status,
+          headers,
+          body: response.content?.text ?? '',
+          bodyBase64: response.content?.encoding === 'base64',
+          source: options.source,
+        }),
+      );
+    }
+    return rules;
+  }
+
+  async remove(id: string): Promise<boolean> {
+    const removed = this.#rules.delete(id);
+    this.#matchers.delete(id);
+    if (!this.#rules.size) {
+      await this.#disable();
+    }
+    return removed;
+  }
+
+  async clear(): Promise<number> {
+    const count = this.#rules.size;
+    this.#rules.clear();
+    this.#matchers.clear();
+    await this.#disable();
+    return count;
+  }
+
+  list(): MockRule[] {
+    return Array.from(this.#rules.values());
+  }
+
+  async #ensureEnabled(): Promise<void> {
+    if (this.#enabled && this.#client) {
+      return;
+    }
+    const client = await this.#session.getClient();
+    if (this.#client !== client) {
+      this.#client = client;
+      client.on('Fetch.requestPaused', params => {
+        void this.#handleRequestPaused(client, params as RequestPausedEvent);
+      });
+    }
+    await client.Fetch.enable({
+      patterns: [{urlPattern: '*', requestStage: 'Request'}],
+    });
+    this.#enabled = true;
+  }
+
+  async #disable(): Promise<void> {
+    if (!this.#enabled || !this.#client) {
+      return;
+    }
+    this.#enabled = false;
+    await this.#client.Fetch.disable().catch(() => {});
+  }
+
+  #handleConnectionState(event: ConnectionStateEvent): void {
+    if (event.state !== 'connected' || !event.client || event.client === this.#client) {
+      return;
+    }
+    this.#client = undefined;
+    this.#enabled = false;
+    if (this.#rules.size) {
+      void this.#ensureEnabled().catch(() => {});
+    }
+  }
+
+  async #handleRequestPaused(
+    client: CDP.Client,
+    event: RequestPausedEvent,
+  ): Promise<void> {
+    const rule = this.#findRule(event);
+    try {
+      if (!rule) {
+        await client.Fetch.continueRequest({requestId: event.requestId});
+        return;
+      }
+      rule.hits++;
+      rule.lastHitAt = new Date();
+      rule.lastHitUrl = event.request.url;
+      if (rule.delayMs) {
+        await sleep(rule.delayMs);
+      }
+      await this.#apply(client, rule, event);
+    } catch {
+      // The request may have been cancelled or the target navigated away.
+      await client.Fetch.continueRequest({requestId: event.requestId}).catch(() => {});
+    }
+  }
+
+  #findRule(event: RequestPausedEvent): MockRule | undefined {
+    for (const rule of this.#rules.values()) {
+      if (rule.times !== undefined && rule.hits >= rule.times) {
+        continue;
+      }
+      if (rule.method && rule.method !== event.request.method.toUpperCase()) {
+        continue;
+      }
+      if (
+        rule.resourceTypes?.length &&
+        !rule.resourceTypes.some(
+          type => type.toLowerCase() === event.resourceType?.toLowerCase(),
+        )
+      ) {
+        continue;
+      }
+      if (!this.#matchers.get(rule.id)?.test(event.request.url)) {
+        continue;
+      }
+      return rule;
+    }
+    return undefined;
+  }
+
+  async #apply(
+    client: CDP.Client,
+    rule: MockRule,
+    event: RequestPausedEvent,
+  ): Promise<void> {
+    const {requestId} = event;
+    switch (rule.action) {
+      case 'fulfill': {
+        const body = rule.body ?? '';
+        await client.Fetch.fulfillRequest({
+          requestId,
+          responseCode: rule.status ?? 200,
+          responseHeaders: toHeaderEntries(rule.headers ?? {}),
+          body: rule.bodyBase64 ? body : Buffer.from(body, 'utf8').toString('base64'),
+        });
+        return;
+      }
+      case 'fail':
+        await client.Fetch.failRequest({
+          requestId,
+          errorReason: (rule.errorReason ?? 'Failed') as never,
+        });
+        return;
+      case 'modify': {
+        const overrides = rule.modify ?? {};
+        const headers = overrides.headers
+          ? toHeaderEntries({...(event.request.headers ?? {}), ...overrides.headers})
+          : undefined;
+        await client.Fetch.continueRequest({
+          requestId,
+          url: overrides.url,
+          method: overrides.method,
+          headers,
+          postData:
+            overrides.postData !== undefined
+              ? Buffer.from(overrides.postData, 'utf8').toString('base64')
+              : undefined,
+        });
+        return;
+      }
+      case 'delay':
+        await client.Fetch.continueRequest({requestId});
+        return;
+    }
+  }
+}
+
+/**
+ * `/source/flags` is a regex when the suffix is valid flags; anything else,
+ * including a path such as `/api/users`, is a glob over the full URL.
+ */
+export function compileUrlPattern(pattern: string): RegExp {
+  const literal = parseRegexLiteral(pattern);
+  if (literal) {
+    return compileRegexLiteral(literal, 'URL regex');
+  }
+  const source = pattern
+    .split('')
+    .map(char => {
+      if (char === '*') {
+        return '.*';
+      }
+      if (char === '?') {
+        return '.';
+      }
+      return escapeRegex(char);
+    })
+    .join('');
+  return new RegExp(`^${source}$`);
+}
+
+function toHeaderEntries(headers: Record<string, string>): Array<{name: string; value: string}> {
+  return Object.entries(headers).map(([name, value]) => ({name, value: String(value)}));
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
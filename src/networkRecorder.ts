@@ -1,13 +1,102 @@
 import type CDP from 'chrome-remote-interface';
 
-import type {PageSession} from './pageSession.js';
+import type {ConnectionStateEvent, PageSession} from './pageSession.js';
+
+export const DEFAULT_MAX_CAPTURED_REQUESTS = 1000;
+export const DEFAULT_MAX_CAPTURED_BYTES = 64 * 1024 * 1024;
+// Rough per-record cost of the fields we do not measure individually.
+const RECORD_OVERHEAD_BYTES = 256;
+
+const MAX_SOCKET_FRAMES = 2000;
+const MAX_FRAME_PAYLOAD_CHARS = 64 * 1024;
+const FRAME_OVERHEAD_BYTES = 64;
+
+const DEFAULT_REPLAY_BODY_CHARS = 100_000;
+const DEFAULT_REPLAY_TIMEOUT_MS = 30_000;
+
+// Browsers refuse to let page scripts set these, so replays cannot override them.
+const FORBIDDEN_REPLAY_HEADERS = new Set([
+  'accept-charset',
+  'accept-encoding',
+  'connection',
+  'content-length',
+  'cookie',
+  'date',
+  'host',
+  'keep-alive',
+  'origin',
+  'referer',
+  'te',
+  'trailer',
+  'transfer-encoding',
+  'upgrade',
+  'user-agent',
+  'via',
+]);
+
+export const DEFAULT_RETAINED_BODY_BYTES = 1024 * 1024;
+export const DEFAULT_RETAINED_MIME_TYPES = [
+  'application/json',
+  'application/javascript',
+  'application/xml',
+  'application/x-www-form-urlencoded',
+  'text/',
+  '+json',
+  '+xml',
+];
+
+/** Phase durations in milliseconds; undefined when a phase did not occur. */
+export interface NetworkTimingPhases {
+  /** Time between the request being issued and the network stack starting it. */
+  queued?: number;
+  dns?: number;
+  connect?: number;
+  ssl?: number;
+  send?: number;
+  /** Time to first byte: request sent until response headers arrived. */
+  wait?: number;
+  receive?: number;
+  /** Monotonic seconds at which response headers were received. */
+  headersReceivedAt?: number;
+}
+
+export interface NetworkStackFrame {
+  functionName: string;
+  url: string;
+  lineNumber: number;
+  columnNumber: number;
+}
+
+export interface NetworkInitiator {
+  type: string;
+  url?: string;
+  lineNumber?: number;
+  columnNumber?: number;
+  stack?: NetworkStackFrame[];
+}
+
+export interface NetworkRedirectHop {
+  url: string;
+  method: string;
+  status: number;
+  statusText?: string;
+  startTime: number;
+  wallTime?: number;
+  endTime: number;
+  requestHeaders?: Record<string, unknown>;
+  responseHeaders?: Record<string, unknown>;
+  timing?: NetworkTimingPhases;
+}
 
 export interface NetworkRequestRecord {
   requestId: string;
+  /** Monotonic capture order shared with navigation markers. */
+  sequence: number;
   url: string;
   method: string;
   resourceType?: string;
   initiatorType?: string;
+  initiator?: NetworkInitiator;
   startTime: number;
   wallTime?: number;
   status?: number;
@@ -21,6 +110,147 @@ export interface NetworkRequestRecord {
   errorText?: string;
   requestBodySize?: number;
   responseBodySize?: number;
+  timing?: NetworkTimingPhases;
+  /** Decoded bytes reported through Network.dataReceived. */
+  dataReceived?: number;
+  dataChunks?: number;
+  /** Earlier hops when the request was redirected, oldest first. */
+  redirects?: NetworkRedirectHop[];
+  /** Bodies kept at capture time when retention is enabled. */
+  requestBody?: string;
+  responseBody?: ResponseBody;
+  /** Request this one replayed via network_replay_request. */
+  replayOf?: string;
+  /** Replays issued from this request, oldest first. */
+  replayedAs?: string[];
+}
+
+export interface ResponseBody {
+  body: string;
+  base64Encoded: boolean;
+}
+
+export interface BodyRetentionOptions {
+  /** Largest body, in bytes, kept in memory. */
+  maxBodyBytes?: number;
+  /** MIME prefixes/suffixes eligible for retention (e.g. `text/`, `+json`). */
+  mimeTypes?: string[];
+}
+
+export interface CaptureOptions {
+  /** Keep request and response bodies at capture time instead of fetching them later. */
+  retainBodies?: boolean | BodyRetentionOptions;
+  /** Drop earlier records; defaults to true unless capture is already running. */
+  clear?: boolean;
+}
+
+export interface NetworkRecorderOptions {
+  /** Ring buffer size; the oldest requests are evicted beyond it. */
+  maxEntries?: number;
+  /** Approximate memory budget for records and retained bodies. */
+  maxBytes?: number;
+}
+
+export interface NetworkNavigation {
+  /** Position relative to request records (see NetworkRequestRecord.sequence). */
+  sequence: number;
+  url: string;
+  timestamp: Date;
+}
+
+export interface NetworkCaptureStats {
+  capturing: boolean;
+  entries: number;
+  bytes: number;
+  maxEntries: number;
+  maxBytes: number;
+  /** Requests dropped from the ring buffer since the last clear. */
+  evicted: number;
+}
+
+export interface ReplayOverrides {
+  url?: string;
+  method?: string;
+  /** Headers merged over the captured request headers. */
+  headers?: Record<string, string>;
+  /** Captured header names to drop before sending. */
+  removeHeaders?: string[];
+  /** Replacement request body. */
+  body?: string;
+  /** Longest response body returned, in characters. */
+  maxBodyChars?: number;
+  /** Give up on the response after this long (default 30 s). */
+  timeoutMs?: number;
+}
+
+/** What the in-page XHR reports back. */
+interface ReplayOutcome {
+  ok: boolean;
+  message?: string;
+  status?: number;
+  statusText?: string;
+  headers?: string;
+  body?: string;
+  bodyLength?: number;
+  durationMs?: number;
+}
+
+export interface ReplayResult {
+  record: NetworkRequestRecord;
+  status: number;
+  statusText: string;
+  headers: Record<string, string>;
+  body: string;
+  bodyLength: number;
+  truncated: boolean;
+  durationMs: number;
+  /** Captured headers the page is not allowed to set, so they were not resent. */
+  skippedHeaders: string[];
+}
+
+export type SocketKind = 'websocket' | 'eventsource';
+
+export interface NetworkSocketConnection {
+  requestId: string;
+  kind: SocketKind;
+  url: string;
+  createdAt: number;
+  closedAt?: number;
+  frameCount: number;
+  errorText?: string;
+}
+
+export interface NetworkSocketFrame {
+  /** Sequential id, unique within the recorder. */
+  id: number;
+  /** Capture order shared with request records, for ring buffer eviction. */
+  sequence: number;
+  requestId: string;
+  kind: SocketKind;
+  direction: 'sent' | 'received';
+  /** WebSocket opcode (1 text, 2 binary, 8 close, 9 ping, 10 pong); absent for EventSource. */
+  opcode?: number;
+  /** Payload text (base64 for binary frames), truncated to MAX_FRAME_PAYLOAD_CHARS. */
+  payload: string;
+  payloadLength: number;
+  truncated: boolean;
+  timestamp: number;
+  /** EventSource event name and id. */
+  eventName?: string;
+  eventId?: string;
+}
+
+interface ResourceTiming {
+  requestTime: number;
+  dnsStart: number;
+  dnsEnd: number;
+  connectStart: number;
+  connectEnd: number;
+  sslStart: number;
+  sslEnd: number;
+  sendStart: number;
+  sendEnd: number;
+  receiveHeadersEnd: number;
 }
 
 export class NetworkRecorder {
@@ -29,27 +259,125 @@ export class NetworkRecorder {
   #capturing = false;
   #requests = new Map<string, NetworkRequestRecord>();
   #order: string[] = [];
+  #sockets = new Map<string, NetworkSocketConnection>();
+  #frames: NetworkSocketFrame[] = [];
+  #nextFrameId = 1;
+  #retention?: Required<BodyRetentionOptions>;
+  #pendingReplays: Array<{url: string; method: string; resolve: (requestId: string) => void}> = [];
+  #replayIds = new Set<string>();
+  #nextReplayId = 1;
+  #nextSequence = 1;
+  #navigations: NetworkNavigation[] = [];
+  #mainFrameId?: string;
+  #sizes = new Map<string, number>();
+  #totalBytes = 0;
+  #evicted = 0;
+  #maxEntries: number;
+  #maxBytes: number;
   #attached = false;
 
-  constructor(session: PageSession) {
+  constructor(session: PageSession, options: NetworkRecorderOptions = {}) {
     this.#session = session;
+    this.#maxEntries = options.maxEntries ?? DEFAULT_MAX_CAPTURED_REQUESTS;
+    this.#maxBytes = options.maxBytes ?? DEFAULT_MAX_CAPTURED_BYTES;
+    this.#session.onConnectionStateChange(event =>
+      this.#handleConnectionState(event),
+    );
   }
 
-  async start(): Promise<void> {
+  async start(options: CaptureOptions = {}): Promise<void> {
     const client = await this.#getClient();
     await client.Network.enable({});
-    this.#requests.clear();
-    this.#order = [];
+    this.#trackMainFrame(client);
+    if (options.clear ?? !this.#capturing) {
+      this.clear();
+    }
+    this.#configureRetention(options);
     this.#capturing = true;
   }
 
+  /**
+   * Capture from the moment the session connects, including requests a
+   * launching app makes while paused waiting for the debugger. Must be called
+   * before the session's first connect to see those.
+   */
+  captureFromConnect(options: CaptureOptions = {}): void {
+    this.#configureRetention(options);
+    this.#capturing = true;
+    this.#session.onClientOpened(async client => {
+      if (this.#client !== client) {
+        this.#client = client;
+        this.#attached = false;
+      }
+      if (!this.#attached) {
+        this.#attachListeners(client);
+        this.#attached = true;
+      }
+      await client.Network.enable({});
+      this.#trackMainFrame(client);
+    });
+  }
+
+  get stats(): NetworkCaptureStats {
+    return {
+      capturing: this.#capturing,
+      entries: this.#order.length,
+      bytes: this.#totalBytes,
+      maxEntries: this.#maxEntries,
+      maxBytes: this.#maxBytes,
+      evicted: this.#evicted,
+    };
+  }
+
+  /** Main-frame navigations seen while capturing, oldest first. */
+  getNavigations(): NetworkNavigation[] {
+    return [...this.#navigations];
+  }
+
+  #configureRetention(options: CaptureOptions): void {
+    this.#retention = options.retainBodies
+      ? {
+          maxBodyBytes:
+            (typeof options.retainBodies === 'object' && options.retainBodies.maxBodyBytes) ||
+            DEFAULT_RETAINED_BODY_BYTES,
+          mimeTypes:
+            (typeof options.retainBodies === 'object' && options.retainBodies.mimeTypes) ||
+            DEFAULT_RETAINED_MIME_TYPES,
+        }
+      : undefined;
+  }
+
+  /** Retention limits in effect, or undefined when bodies are not retained. */
+  get bodyRetention(): Required<BodyRetentionOptions> | undefined {
+    return this.#retention;
+  }
+
   async stop(): Promise<void> {
     this.#capturing = false;
   }
 
   clear(): void {
     this.#requests.clear();
+    this.#replayIds.clear();
+    this.#sizes.clear();
+    this.#totalBytes = 0;
+    this.#evicted = 0;
+    this.#navigations = [];
     this.#order = [];
+    this.#sockets.clear();
+    this.#frames = [];
+  }
+
+  getSocketConnections(): NetworkSocketConnection[] {
+    return Array.from(this.#sockets.values());
+  }
+
+  /**
+   * Frames in arrival order. The oldest are dropped beyond MAX_SOCKET_FRAMES
+   * or, with requests, once the capture exceeds its byte budget.
+   */
+  getSocketFrames(): NetworkSocketFrame[] {
+    return [...this.#frames];
   }
 
   getRequests(): NetworkRequestRecord[] {
@@ -58,10 +386,11 @@ export class NetworkRecorder {
       .filter((record): record is NetworkRequestRecord => !!record);
   }
 
-  async getResponseBody(requestId: string): Promise<{
-    body: string;
-    base64Encoded: boolean;
-  } | null> {
+  async getResponseBody(requestId: string): Promise<ResponseBody | null> {
+    const retained = this.#requests.get(requestId)?.responseBody;
+    if (retained) {
+      return retained;
+    }
     try {
       const client = await this.#getClient();
       const body = await client.Network.getResponseBody({requestId});
@@ -72,6 +401,10 @@ export class NetworkRecorder {
   }
 
   async getRequestPostData(requestId: string): Promise<string | null> {
+    const retained = this.#requests.get(requestId)?.requestBody;
+    if (retained !== undefined) {
+      return retained;
+    }
     try {
       const client = await this.#getClient();
       const data = await client.Network.getRequestPostData({requestId});
@@ -81,6 +414,155 @@ export class NetworkRecorder {
     }
   }
 
+  /**
+   * Re-issue a captured request from inside the page so cookies and origin
+   * match the app, and record the outcome as a new entry linked to the
+   * original.
+   */
+  async replay(requestId: string, overrides: ReplayOverrides = {}): Promise<ReplayResult> {
+    const original = this.#requests.get(requestId);
+    if (!original) {
+      throw new Error(`Request ${requestId} not found in the capture.`);
+    }
+    const method = (overrides.method ?? original.method).toUpperCase();
+    const url = overrides.url ?? original.url;
+    const removed = new Set((overrides.removeHeaders ?? []).map(name => name.toLowerCase()));
+    const headers: Record<string, string> = {};
+    const skippedHeaders: string[] = [];
+    const merged = {...stringifyHeaders(original.requestHeaders), ...(overrides.headers ?? {})};
+    for (const [name, value] of Object.entries(merged)) {
+      const lower = name.toLowerCase();
+      if (removed.has(lower)) {
+        continue;
+      }
+      if (
+        lower.startsWith(':') ||
+        lower.startsWith('sec-') ||
+        lower.startsWith('proxy-') ||
+        FORBIDDEN_REPLAY_HEADERS.has(lower)
+      ) {
+        skippedHeaders.push(name);
+        continue;
+      }
+      headers[name] = value;
+    }
+    const body =
+      method === 'GET' || method === 'HEAD'
+        ? null
+        : overrides.body ?? (await this.getRequestPostData(requestId));
+
+    const client = await this.#getClient();
+    await client.Network.enable({});
+    let resolveReplayId!: (requestId: string) => void;
+    const replayId = new Promise<string>(resolve => {
+      resolveReplayId = resolve;
+    });
+    const pending = {url: normalizeUrl(url), method, resolve: resolveReplayId};
+    this.#pendingReplays.push(pending);
+
+    const maxBodyChars = overrides.maxBodyChars ?? DEFAULT_REPLAY_BODY_CHARS;
+    const timeoutMs = overrides.timeoutMs ?? DEFAULT_REPLAY_TIMEOUT_MS;
+    // ES5 + XHR so the replay also runs on older webOS Chromium builds.
+    const script = `(function () {
+      return new Promise(function (resolve) {
+        var started = Date.now();
+        var xhr = new XMLHttpRequest();
+        try {
+          xhr.open(${JSON.stringify(method)}, ${JSON.stringify(url)}, true);
+          xhr.withCredentials = true;
+          xhr.timeout = ${timeoutMs};
+          var headers = ${JSON.stringify(headers)};
+          for (var name in headers) {
+            if (Object.prototype.hasOwnProperty.call(headers, name)) {
+              xhr.setRequestHeader(name, headers[name]);
+            }
+          }
+        } catch (error) {
+          resolve(JSON.stringify({ok: false, message: String(error && error.message || error)}));
+          return;
+        }
+        xhr.onload = function () {
+          var text = typeof xhr.responseText === 'string' ? xhr.responseText : '';
+          resolve(JSON.stringify({
+            ok: true,
+            status: xhr.status,
+            statusText: xhr.statusText,
+            headers: xhr.getAllResponseHeaders(),
+            body: text.slice(0, ${maxBodyChars}),
+            bodyLength: text.length,
+            durationMs: Date.now() - started
+          }));
+        };
+        xhr.onerror = function () {
+          resolve(JSON.stringify({ok: false, message: 'Network error', durationMs: Date.now() - started}));
+        };
+        xhr.ontimeout = function () {
+          resolve(JSON.stringify({ok: false, message: 'Timed out after ${timeoutMs} ms', durationMs: Date.now() - started}));
+        };
+        xhr.send(${JSON.stringify(body ?? null)});
+      });
+    })()`;
+
+    const evaluated = await this.#session
+      .evaluate(script, {awaitPromise: true})
+      .finally(() => {
+        setTimeout(() => {
+          this.#pendingReplays = this.#pendingReplays.filter(entry => entry !== pending);
+        }, 250).unref();
+      });
+    let outcome: ReplayOutcome;
+    try {
+      outcome = JSON.parse(String(evaluated.value)) as ReplayOutcome;
+    } catch {
+      // A navigation during the replay tears down the promise mid-flight.
+      throw new Error(
+        `The replay did not report a result (got ${evaluated.value}); the page may have navigated.`,
+      );
+    }
+
+    // The CDP events for the replay usually arrive before the XHR resolves.
+    const trackedId = await Promise.race([replayId, sleep(250).then(() => undefined)]);
+    let record = trackedId ? this.#requests.get(trackedId) : undefined;
+    if (!record) {
+      record = this.#ensureRecord(`replay-${this.#nextReplayId++}`);
+      record.url = url;
+      record.method = method;
+      record.resourceType = 'XHR';
+      record.requestHeaders = headers;
+      record.startTime = Date.now() / 1000 - (outcome.durationMs ?? 0) / 1000;
+      record.endTime = Date.now() / 1000;
+      record.status = outcome.ok ? outcome.status : undefined;
+      record.statusText = outcome.statusText;
+      record.errorText = outcome.ok ? undefined : outcome.message;
+    }
+    record.replayOf = requestId;
+    if (body != null) {
+      record.requestBody = body;
+    }
+    if (outcome.ok && outcome.body !== undefined) {
+      record.responseBody = {body: outcome.body, base64Encoded: false};
+    }
+    original.replayedAs = [...(original.replayedAs ?? []), record.requestId];
+    this.#updateSize(record);
+
+    if (!outcome.ok) {
+      throw new Error(`Replay of ${requestId} failed: ${outcome.message ?? 'unknown error'} (recorded as ${record.requestId}).`);
+    }
+    const responseHeaders = parseRawHeaders(outcome.headers ?? '');
+    record.responseHeaders ??= responseHeaders;
+    return {
+      record,
+      status: outcome.status ?? 0,
+      statusText: outcome.statusText ?? '',
+      headers: responseHeaders,
+      body: outcome.body ?? '',
+      bodyLength: outcome.bodyLength ?? 0,
+      truncated: (outcome.bodyLength ?? 0) > (outcome.body?.length ?? 0),
+      durationMs: outcome.durationMs ?? 0,
+      skippedHeaders,
+    };
+  }
+
   async #getClient(): Promise<CDP.Client> {
     if (this.#client) {
       return this.#client;
@@ -94,27 +576,97 @@ export class NetworkRecorder {
     return client;
   }
 
+  #handleConnectionState(event: ConnectionStateEvent): void {
+    if (event.state !== 'connected' || !event.client || event.client === this.#client) {
+      return;
+    }
+    // The cached client and its listeners died with the old socket.
+    this.#client = undefined;
+    this.#attached = false;
+    // A relaunched app gets a new main frame id.
+    this.#mainFrameId = undefined;
+    if (!this.#capturing) {
+      return;
+    }
+    void this.#getClient()
+      .then(async client => {
+        await client.Network.enable({});
+        this.#trackMainFrame(client);
+      })
+      .catch(() => {});
+  }
+
   #attachListeners(client: CDP.Client): void {
     client.on('Network.requestWillBeSent', params => {
-      if (!this.#capturing) {
+      const requestId = params.requestId;
+      this.#claimReplay(requestId, params.request.url, params.request.method);
+      if (!this.#isTracked(requestId)) {
         return;
       }
-      const requestId = params.requestId;
+      const existing = this.#requests.get(requestId);
+      if (params.redirectResponse && existing) {
+        // Chrome reuses the requestId for each redirect hop.
+        const response = params.redirectResponse;
+        const hop: NetworkRedirectHop = {
+          url: existing.url,
+          method: existing.method,
+          status: response.status,
+          statusText: response.statusText,
+          startTime: existing.startTime,
+          wallTime: existing.wallTime,
+          endTime: params.timestamp,
+          requestHeaders: existing.requestHeaders,
+          responseHeaders: response.headers as Record<string, unknown>,
+          timing: computeTimingPhases(
+            existing.startTime,
+            response.timing as ResourceTiming | undefined,
+            params.timestamp,
+          ),
+        };
+        existing.redirects = [...(existing.redirects ?? []), hop];
+        existing.timing = undefined;
+        existing.status = undefined;
+        existing.statusText = undefined;
+        existing.mimeType = undefined;
+        existing.responseHeaders = undefined;
+        existing.fromCache = undefined;
+        existing.dataReceived = undefined;
+        existing.dataChunks = undefined;
+      } else if (
+        params.type === 'Document' &&
+        params.requestId === params.loaderId &&
+        (!this.#mainFrameId || params.frameId === this.#mainFrameId)
+      ) {
+        this.#navigations.push({
+          sequence: this.#nextSequence++,
+          url: params.request.url,
+          timestamp: params.wallTime ? new Date(params.wallTime * 1000) : new Date(),
+        });
+      }
       const record = this.#ensureRecord(requestId);
       record.url = params.request.url;
       record.method = params.request.method;
       record.resourceType = params.type;
       record.initiatorType = params.initiator?.type;
+      record.initiator = toInitiator(params.initiator);
       record.startTime = params.timestamp ?? record.startTime;
       record.wallTime = params.wallTime;
       record.requestHeaders = params.request.headers as Record<string, unknown>;
       if (params.request.hasPostData) {
         record.requestBodySize = params.request.postData?.length;
+        if (
+          this.#retention &&
+          params.request.postData !== undefined &&
+          Buffer.byteLength(params.request.postData) <= this.#retention.maxBodyBytes
+        ) {
+          record.requestBody = params.request.postData;
+        }
       }
+      this.#updateSize(record);
     });
 
     client.on('Network.responseReceived', params => {
-      if (!this.#capturing) {
+      if (!this.#isTracked(params.requestId)) {
         return;
       }
       const record = this.#ensureRecord(params.requestId);
@@ -123,26 +675,269 @@ export class NetworkRecorder {
       record.mimeType = params.response.mimeType;
       record.responseHeaders = params.response.headers as Record<string, unknown>;
       record.fromCache = params.response.fromDiskCache || params.response.fromServiceWorker;
+      record.timing = computeTimingPhases(
+        record.startTime,
+        params.response.timing as ResourceTiming | undefined,
+      );
+      this.#updateSize(record);
+    });
+
+    client.on('Network.dataReceived', params => {
+      if (!this.#isTracked(params.requestId)) {
+        return;
+      }
+      const record = this.#requests.get(params.requestId);
+      if (!record) {
+        return;
+      }
+      record.dataReceived = (record.dataReceived ?? 0) + params.dataLength;
+      record.dataChunks = (record.dataChunks ?? 0) + 1;
     });
 
     client.on('Network.loadingFinished', params => {
-      if (!this.#capturing) {
+      if (!this.#isTracked(params.requestId)) {
         return;
       }
       const record = this.#ensureRecord(params.requestId);
       record.encodedDataLength = params.encodedDataLength;
       record.responseBodySize = params.encodedDataLength;
       record.endTime = params.timestamp ?? record.endTime;
+      if (record.timing?.headersReceivedAt !== undefined && record.endTime !== undefined) {
+        record.timing.receive = Math.max(
+          0,
+          (record.endTime - record.timing.headersReceivedAt) * 1000,
+        );
+      }
+      if (this.#shouldRetainResponse(record)) {
+        // Fetch right away; Chrome evicts bodies from its buffer quickly.
+        void client.Network.getResponseBody({requestId: params.requestId})
+          .then(body => {
+            if (
+              this.#requests.get(record.requestId) === record &&
+              this.#bodySize(body) <= (this.#retention?.maxBodyBytes ?? 0)
+            ) {
+              record.responseBody = body;
+              this.#updateSize(record);
+            }
+          })
+          .catch(() => {});
+      }
     });
 
     client.on('Network.loadingFailed', params => {
-      if (!this.#capturing) {
+      if (!this.#isTracked(params.requestId)) {
         return;
       }
       const record = this.#ensureRecord(params.requestId);
       record.errorText = params.errorText ?? 'Request failed';
       record.endTime = params.timestamp ?? record.endTime;
     });
+
+    client.on('Network.webSocketCreated', params => {
+      if (!this.#capturing) {
+        return;
+      }
+      // WebSockets never emit requestWillBeSent, so record the handshake here.
+      const record = this.#ensureRecord(params.requestId);
+      record.url = params.url;
+      record.resourceType = 'WebSocket';
+      record.initiatorType = params.initiator?.type;
+      record.initiator = toInitiator(params.initiator);
+      this.#sockets.set(params.requestId, {
+        requestId: params.requestId,
+        kind: 'websocket',
+        url: params.url,
+        createdAt: Date.now() / 1000,
+        frameCount: 0,
+      });
+    });
+
+    client.on('Network.webSocketWillSendHandshakeRequest', params => {
+      if (!this.#capturing) {
+        return;
+      }
+      const record = this.#ensureRecord(params.requestId);
+      record.startTime = params.timestamp;
+      record.wallTime = params.wallTime;
+      record.requestHeaders = params.request.headers as Record<string, unknown>;
+      const socket = this.#sockets.get(params.requestId);
+      if (socket) {
+        socket.createdAt = params.timestamp;
+      }
+    });
+
+    client.on('Network.webSocketHandshakeResponseReceived', params => {
+      if (!this.#capturing) {
+        return;
+      }
+      const record = this.#ensureRecord(params.requestId);
+      record.status = params.response.status;
+      record.statusText = params.response.statusText;
+      record.responseHeaders = params.response.headers as Record<string, unknown>;
+    });
+
+    client.on('Network.webSocketFrameSent', params => {
+      this.#recordFrame('websocket', 'sent', params);
+    });
+
+    client.on('Network.webSocketFrameReceived', params => {
+      this.#recordFrame('websocket', 'received', params);
+    });
+
+    client.on('Network.webSocketFrameError', params => {
+      if (!this.#capturing) {
+        return;
+      }
+      const socket = this.#sockets.get(params.requestId);
+      if (socket) {
+        socket.errorText = params.errorMessage;
+      }
+    });
+
+    client.on('Network.webSocketClosed', params => {
+      if (!this.#capturing) {
+        return;
+      }
+      const record = this.#requests.get(params.requestId);
+      if (!record) {
+        // The handshake was already evicted; nothing else will drop the socket.
+        this.#dropSocket(params.requestId);
+        return;
+      }
+      record.endTime = params.timestamp;
+      const socket = this.#sockets.get(params.requestId);
+      if (socket) {
+        socket.closedAt = params.timestamp;
+      }
+    });
+
+    client.on('Network.eventSourceMessageReceived', params => {
+      if (!this.#capturing) {
+        return;
+      }
+      if (!this.#sockets.has(params.requestId)) {
+        this.#sockets.set(params.requestId, {
+          requestId: params.requestId,
+          kind: 'eventsource',
+          url: this.#requests.get(params.requestId)?.url ?? '',
+          createdAt: this.#requests.get(params.requestId)?.startTime ?? params.timestamp,
+          frameCount: 0,
+        });
+      }
+      this.#pushFrame({
+        requestId: params.requestId,
+        kind: 'eventsource',
+        direction: 'received',
+        payload: params.data,
+        timestamp: params.timestamp,
+        eventName: params.eventName || undefined,
+        eventId: params.eventId || undefined,
+      });
+    });
+  }
+
+  #claimReplay(requestId: string, url: string, method: string): void {
+    if (!this.#pendingReplays.length) {
+      return;
+    }
+    const normalized = normalizeUrl(url);
+    const index = this.#pendingReplays.findIndex(
+      pending => pending.url === normalized && pending.method === method.toUpperCase(),
+    );
+    if (index === -1) {
+      return;
+    }
+    const [pending] = this.#pendingReplays.splice(index, 1);
+    this.#replayIds.add(requestId);
+    pending!.resolve(requestId);
+  }
+
+  /** Replays are recorded even while capture is stopped. */
+  #isTracked(requestId: string): boolean {
+    return this.#capturing || this.#replayIds.has(requestId);
+  }
+
+  #shouldRetainResponse(record: NetworkRequestRecord): boolean {
+    const retention = this.#retention;
+    if (!retention || !record.mimeType) {
+      return false;
+    }
+    const size = record.dataReceived ?? record.encodedDataLength ?? 0;
+    if (size > retention.maxBodyBytes) {
+      return false;
+    }
+    const mimeType = record.mimeType.toLowerCase();
+    return retention.mimeTypes.some(pattern => {
+      const candidate = pattern.toLowerCase();
+      return mimeType.startsWith(candidate) || mimeType.endsWith(candidate);
+    });
+  }
+
+  #bodySize(body: ResponseBody): number {
+    return body.base64Encoded
+      ? Math.floor((body.body.length * 3) / 4)
+      : Buffer.byteLength(body.body);
+  }
+
+  #recordFrame(
+    kind: SocketKind,
+    direction: 'sent' | 'received',
+    params: {
+      requestId: string;
+      timestamp: number;
+      response: {opcode: number; payloadData: string};
+    },
+  ): void {
+    if (!this.#capturing) {
+      return;
+    }
+    this.#pushFrame({
+      requestId: params.requestId,
+      kind,
+      direction,
+      opcode: params.response.opcode,
+      payload: params.response.payloadData,
+      timestamp: params.timestamp,
+    });
+  }
+
+  #pushFrame(
+    frame: Omit<NetworkSocketFrame, 'id' | 'sequence' | 'payloadLength' | 'truncated'>,
+  ): void {
+    const payloadLength = frame.payload.length;
+    const truncated = payloadLength > MAX_FRAME_PAYLOAD_CHARS;
+    const stored: NetworkSocketFrame = {
+      ...frame,
+      id: this.#nextFrameId++,
+      sequence: this.#nextSequence++,
+      payload: truncated ? frame.payload.slice(0, MAX_FRAME_PAYLOAD_CHARS) : frame.payload,
+      payloadLength,
+      truncated,
+    };
+    this.#frames.push(stored);
+    this.#totalBytes += estimateFrameBytes(stored);
+    if (this.#frames.length > MAX_SOCKET_FRAMES) {
+      for (const dropped of this.#frames.splice(0, this.#frames.length - MAX_SOCKET_FRAMES)) {
+        this.#totalBytes -= estimateFrameBytes(dropped);
+      }
+    }
+    const socket = this.#sockets.get(frame.requestId);
+    if (socket) {
+      socket.frameCount++;
+    }
+    this.#enforceLimits(frame.requestId);
+  }
+
+  /** Forget a socket and its frames. */
+  #dropSocket(requestId: string): void {
+    this.#sockets.delete(requestId);
+    this.#frames = this.#frames.filter(frame => {
+      if (frame.requestId !== requestId) {
+        return true;
+      }
+      this.#totalBytes -= estimateFrameBytes(frame);
+      return false;
+    });
   }
 
   #ensureRecord(requestId: string): NetworkRequestRecord {
@@ -150,13 +945,192 @@ export class NetworkRecorder {
     if (!record) {
       record = {
         requestId,
+        sequence: this.#nextSequence++,
         url: '',
         method: 'GET',
         startTime: Date.now() / 1000,
       };
       this.#requests.set(requestId, record);
       this.#order.push(requestId);
+      this.#updateSize(record);
     }
     return record;
   }
+
+  #updateSize(record: NetworkRequestRecord): void {
+    const size = estimateRecordBytes(record);
+    this.#totalBytes += size - (this.#sizes.get(record.requestId) ?? 0);
+    this.#sizes.set(record.requestId, size);
+    this.#enforceLimits(record.requestId);
+  }
+
+  /**
+   * Evict the oldest records until both ring buffer limits hold. Socket frames
+   * share the byte budget and go in capture order alongside requests.
+   */
+  #enforceLimits(keepId: string): void {
+    while (this.#order.length > this.#maxEntries) {
+      this.#evictOldestRequest(keepId);
+    }
+    while (this.#totalBytes > this.#maxBytes) {
+      const frame = this.#frames[0];
+      const record = this.#requests.get(this.#order[0] ?? '');
+      if (frame && (!record || frame.sequence < record.sequence || this.#order.length <= 1)) {
+        this.#frames.shift();
+        this.#totalBytes -= estimateFrameBytes(frame);
+      } else if (this.#order.length > 1) {
+        this.#evictOldestRequest(keepId);
+      } else {
+        break;
+      }
+    }
+    const first = this.#requests.get(this.#order[0] ?? '');
+    if (first) {
+      // Keep the marker introducing the oldest surviving record.
+      let preceding = 0;
+      while (
+        preceding + 1 < this.#navigations.length &&
+        this.#navigations[preceding + 1]!.sequence < first.sequence
+      ) {
+        preceding++;
+      }
+      if (preceding > 0) {
+        this.#navigations.splice(0, preceding);
+      }
+    }
+  }
+
+  #evictOldestRequest(keepId: string): void {
+    const oldest = this.#order[0] === keepId && this.#order.length > 1 ? 1 : 0;
+    const [requestId = ''] = this.#order.splice(oldest, 1);
+    const record = this.#requests.get(requestId);
+    this.#requests.delete(requestId);
+    this.#replayIds.delete(requestId);
+    this.#totalBytes -= this.#sizes.get(requestId) ?? 0;
+    this.#sizes.delete(requestId);
+    this.#evicted++;
+    // Open sockets stay listed until they close; finished ones go with their handshake.
+    const socket = this.#sockets.get(requestId);
+    if (socket && (socket.closedAt !== undefined || record?.endTime !== undefined)) {
+      this.#dropSocket(requestId);
+    }
+  }
+
+  #trackMainFrame(client: CDP.Client): void {
+    void client.Page.getFrameTree()
+      .then(({frameTree}) => {
+        this.#mainFrameId = frameTree.frame.id;
+      })
+      .catch(() => {});
+  }
+}
+
+function estimateFrameBytes(frame: NetworkSocketFrame): number {
+  return FRAME_OVERHEAD_BYTES + frame.payload.length;
+}
+
+function estimateRecordBytes(record: NetworkRequestRecord): number {
+  let size = RECORD_OVERHEAD_BYTES + record.url.length;
+  const hops = record.redirects ?? [];
+  const headerSets = [
+    record.requestHeaders,
+    record.responseHeaders,
+    ...hops.flatMap(hop => [hop.requestHeaders, hop.responseHeaders]),
+  ];
+  for (const headers of headerSets) {
+    for (const [name, value] of Object.entries(headers ?? {})) {
+      size += name.length + String(value).length;
+    }
+  }
+  for (const hop of hops) {
+    size += hop.url.length;
+  }
+  size += record.requestBody?.length ?? 0;
+  size += record.responseBody?.body.length ?? 0;
+  return size;
+}
+
+function computeTimingPhases(
+  startTime: number,
+  timing: ResourceTiming | undefined,
+  endTime?: number,
+): NetworkTimingPhases | undefined {
+  if (!timing || typeof timing.requestTime !== 'number') {
+    return undefined;
+  }
+  const span = (start: number, end: number) =>
+    start >= 0 && end >= start ? end - start : undefined;
+  const headersReceivedAt = timing.requestTime + timing.receiveHeadersEnd / 1000;
+  return {
+    queued: Math.max(0, (timing.requestTime - startTime) * 1000),
+    dns: span(timing.dnsStart, timing.dnsEnd),
+    connect: span(timing.connectStart, timing.connectEnd),
+    ssl: span(timing.sslStart, timing.sslEnd),
+    send: span(timing.sendStart, timing.sendEnd),
+    wait: span(timing.sendEnd, timing.receiveHeadersEnd),
+    receive:
+      endTime !== undefined ? Math.max(0, (endTime - headersReceivedAt) * 1000) : undefined,
+    headersReceivedAt,
+  };
+}
+
+function toInitiator(raw: unknown): NetworkInitiator | undefined {
+  const initiator = raw as
+    | {
+        type?: string;
+        url?: string;
+        lineNumber?: number;
+        columnNumber?: number;
+        stack?: {callFrames?: NetworkStackFrame[]; parent?: unknown};
+      }
+    | undefined;
+  if (!initiator?.type) {
+    return undefined;
+  }
+  const stack: NetworkStackFrame[] = [];
+  let current = initiator.stack as
+    | {callFrames?: NetworkStackFrame[]; parent?: unknown}
+    | undefined;
+  while (current) {
+    stack.push(...(current.callFrames ?? []));
+    current = current.parent as typeof current;
+  }
+  return {
+    type: initiator.type,
+    url: initiator.url ?? stack[0]?.url,
+    lineNumber: initiator.lineNumber ?? stack[0]?.lineNumber,
+    columnNumber: initiator.columnNumber ?? stack[0]?.columnNumber,
+    stack: stack.length ? stack : undefined,
+  };
+}
+
+function stringifyHeaders(headers?: Record<string, unknown>): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (const [name, value] of Object.entries(headers ?? {})) {
+    result[name] = String(value);
+  }
+  return result;
+}
+
+function parseRawHeaders(raw: string): Record<string, string> {
+  const headers: Record<string, string> = {};
+  for (const line of raw.split(/\r?\n/)) {
+    const separator = line.indexOf(':');
+    if (separator > 0) {
+      headers[line.slice(0, separator).trim()] = line.slice(separator + 1).trim();
+    }
+  }
+  return headers;
+}
+
+function normalizeUrl(url: string): string {
+  try {
+    return new URL(url).href;
+  } catch {
+    return url;
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
 }
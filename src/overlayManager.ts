@@ -1,6 +1,6 @@
 import type CDP from 'chrome-remote-interface';
 
-import type {PageSession} from './pageSession.js';
+import type {ConnectionStateEvent, PageSession} from './pageSession.js';
 
 export interface HighlightOptions {
   selector?: string;
@@ -35,6 +35,9 @@ export class OverlayManager {
 
   constructor(session: PageSession) {
     this.#session = session;
+    this.#session.onConnectionStateChange(event =>
+      this.#handleConnectionState(event),
+    );
   }
 
   async highlight(options: HighlightOptions): Promise<{screenshot?: string}> {
@@ -161,6 +164,23 @@ export class OverlayManager {
     return nodeId;
   }
 
+  #handleConnectionState(event: ConnectionStateEvent): void {
+    if (event.state !== 'connected' || !event.client || event.client === this.#client) {
+      return;
+    }
+    const wasEnabled = !!this.#client;
+    this.#client = undefined;
+    // Node ids from the previous connection are no longer valid.
+    this.#decoratedNodes.clear();
+    if (this.#timer) {
+      clearTimeout(this.#timer);
+      this.#timer = undefined;
+    }
+    if (wasEnabled) {
+      void this.#getClient().catch(() => {});
+    }
+  }
+
   async #getClient(): Promise<CDP.Client> {
     if (this.#client) {
       return this.#client;
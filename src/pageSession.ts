@@ -1,8 +1,17 @@
 import CDP from 'chrome-remote-interface';
 
-const MAX_BUFFERED_ENTRIES = 500;
+import {DebuggerManager, LOGPOINT_URL_PREFIX} from './debuggerManager.js';
+import {ScriptCatalog, type FrameLocation} from './scriptCatalog.js';
+import type {EndpointResolver} from './targetDiscovery.js';
 
-export type LogKind = 'console' | 'exception' | 'log';
+export const DEFAULT_MAX_BUFFERED_ENTRIES = 500;
+const DEFAULT_RECONNECT_INITIAL_DELAY_MS = 500;
+const DEFAULT_RECONNECT_MAX_DELAY_MS = 10_000;
+const DEFAULT_RECONNECT_MAX_ATTEMPTS = 20;
+
+export type LogKind = 'console' | 'exception' | 'log' | 'logpoint';
+
+export const LOG_KINDS: [LogKind, ...LogKind[]] = ['console', 'exception', 'log', 'logpoint'];
 
 export interface PageLogEntry {
   id: number;
@@ -12,17 +21,140 @@ export interface PageLogEntry {
   timestamp: Date;
   source?: string;
   url?: string;
+  /** Generated location of the top stack frame, for source-map lookups. */
+  location?: FrameLocation;
+  /** Full stack at the time of the call or throw, top frame first. */
+  stack?: FrameLocation[];
+  /** Console call arguments, in order. */
+  args?: LogArgument[];
+  exception?: LogException;
+}
+
+export interface LogArgument {
+  type: string;
+  subtype?: string;
+  className?: string;
+  /** Formatted value, or the object's description. */
+  value: string;
+  /** One-line preview of an object's properties or entries. */
+  preview?: string;
+  /**
+   * Handle in the `console` object group; valid until the page navigates or
+   * the console is cleared.
+   */
+  objectId?: string;
+}
+
+export interface LogException {
+  scriptId?: string;
+  url?: string;
+  lineNumber?: number;
+  columnNumber?: number;
+  /** The thrown value, e.g. `TypeError: x is undefined` with its stack. */
+  description?: string;
+  className?: string;
+  objectId?: string;
+}
+
+export interface LogEntryQuery {
+  limit?: number;
+  kinds?: LogKind[];
+  newestFirst?: boolean;
+  /**
+   * Only return entries recorded after this id. The oldest matching entries
+   * are returned first so repeated calls page forward without gaps.
+   */
+  afterId?: number;
+  /** Case-insensitive levels; `warn` also matches `warning`. */
+  levels?: string[];
+  /** Tested against the message text. */
+  search?: RegExp;
+  /** Substring of the entry URL. */
+  url?: string;
+  /** Substring of the entry source (e.g. `network`, `devtools-connection`). */
+  source?: string;
+  since?: Date;
+  until?: Date;
+}
+
+export interface PageNavigation {
+  url: string;
+  at: Date;
+  /** Id of the last entry recorded before the navigation. */
+  afterEntryId: number;
 }
 
+export const DEFAULT_OBJECT_GROUP = 'mcp-evaluate';
+
 export interface EvaluateOptions {
   awaitPromise?: boolean;
   returnByValue?: boolean;
+  /** Object group holding handles when returnByValue is false. */
+  objectGroup?: string;
+  /**
+   * Evaluate in this paused call frame (Debugger.evaluateOnCallFrame) so
+   * locals and closure variables are in scope. Promises are not awaited,
+   * since nothing settles while the page is paused.
+   */
+  callFrameId?: string;
 }
 
 export interface EvaluateResult {
   type: string;
   value: string;
   description?: string;
+  subtype?: string;
+  className?: string;
+  /** Remote object handle, present for objects returned by reference. */
+  objectId?: string;
+  objectGroup?: string;
+  /** One-line preview of the object's properties or entries. */
+  preview?: string;
+}
+
+export interface GetPropertiesOptions {
+  ownProperties?: boolean;
+  accessorPropertiesOnly?: boolean;
+}
+
+export interface PropertySummary {
+  name: string;
+  type: string;
+  subtype?: string;
+  value: string;
+  objectId?: string;
+  isOwn?: boolean;
+  enumerable?: boolean;
+  getter?: boolean;
+  setter?: boolean;
+  wasThrown?: boolean;
+}
+
+export interface ObjectProperties {
+  properties: PropertySummary[];
+  internalProperties: PropertySummary[];
+  /** Handle for the object's [[Prototype]], when one was reported. */
+  prototypeObjectId?: string;
+}
+
+interface RemoteObjectLike {
+  type?: string;
+  subtype?: string;
+  className?: string;
+  value?: unknown;
+  unserializableValue?: string;
+  description?: string;
+  objectId?: string;
+  preview?: ObjectPreviewLike;
+}
+
+interface ObjectPreviewLike {
+  type?: string;
+  subtype?: string;
+  description?: string;
+  overflow?: boolean;
+  properties?: Array<{name: string; type: string; value?: string; subtype?: string}>;
+  entries?: Array<{key?: ObjectPreviewLike; value: ObjectPreviewLike}>;
 }
 
 export interface NavigateOptions {
@@ -43,15 +175,133 @@ export interface ScreenshotOptions {
   fromSurface?: boolean;
 }
 
+export type ConnectionState =
+  | 'connecting'
+  | 'connected'
+  | 'reconnecting'
+  | 'disconnected';
+
+export interface ConnectionStateEvent {
+  state: ConnectionState;
+  /** Present when state is `connected`; managers re-attach to this client. */
+  client?: CDP.Client;
+  /** Reconnect attempt number (1-based) while reconnecting. */
+  attempt?: number;
+  /** True when this connection replaces a previously lost one. */
+  reconnected?: boolean;
+  error?: string;
+}
+
+export type ConnectionStateListener = (event: ConnectionStateEvent) => void;
+
+export type ClientOpenedListener = (client: CDP.Client) => Promise<void> | void;
+
+export type LogEntryListener = (entry: PageLogEntry) => void;
+
+export interface ReconnectOptions {
+  enabled?: boolean;
+  initialDelayMs?: number;
+  maxDelayMs?: number;
+  maxAttempts?: number;
+}
+
+export interface PageSessionOptions {
+  reconnect?: ReconnectOptions;
+  /** Log entries kept in memory before the oldest are dropped. */
+  maxBufferedEntries?: number;
+  /** Local directory of `.map` files for scripts whose maps are not served. */
+  sourceMapsDir?: string;
+}
+
 export class PageSession {
-  #endpoint: string;
+  /** Scripts parsed by the page and their source maps. */
+  readonly scripts: ScriptCatalog;
+  /** Breakpoints and paused state; constructed after `scripts` so it runs second on connect. */
+  readonly debugger: DebuggerManager;
+  #endpointSource: string | EndpointResolver;
+  #endpoint?: string;
   #client?: CDP.Client;
   #clientPromise?: Promise<CDP.Client>;
   #entries: PageLogEntry[] = [];
   #nextId = 1;
+  #state: ConnectionState = 'disconnected';
+  #stateListeners = new Set<ConnectionStateListener>();
+  #clientOpenedListeners = new Set<ClientOpenedListener>();
+  #entryListeners = new Set<LogEntryListener>();
+  #lastNavigation?: PageNavigation;
+  #maxBufferedEntries: number;
+  #reconnect: Required<ReconnectOptions>;
+  #hasConnected = false;
+  #disposed = false;
 
-  constructor(endpoint: string) {
-    this.#endpoint = endpoint;
+  /**
+   * @param endpoint Page WebSocket URL, or a resolver that is consulted on
+   *   every (re)connect so a relaunched page's new ID is picked up.
+   */
+  constructor(
+    endpoint: string | EndpointResolver,
+    options: PageSessionOptions = {},
+  ) {
+    this.#endpointSource = endpoint;
+    if (typeof endpoint === 'string') {
+      this.#endpoint = endpoint;
+    }
+    this.#maxBufferedEntries =
+      options.maxBufferedEntries ?? DEFAULT_MAX_BUFFERED_ENTRIES;
+    this.#reconnect = {
+      enabled: options.reconnect?.enabled ?? true,
+      initialDelayMs:
+        options.reconnect?.initialDelayMs ?? DEFAULT_RECONNECT_INITIAL_DELAY_MS,
+      maxDelayMs: options.reconnect?.maxDelayMs ?? DEFAULT_RECONNECT_MAX_DELAY_MS,
+      maxAttempts:
+        options.reconnect?.maxAttempts ?? DEFAULT_RECONNECT_MAX_ATTEMPTS,
+    };
+    this.scripts = new ScriptCatalog(this, {sourceMapsDir: options.sourceMapsDir});
+    this.debugger = new DebuggerManager(this);
+  }
+
+  /** The page WebSocket URL of the current (or last) connection. */
+  get endpoint(): string | undefined {
+    return this.#endpoint;
+  }
+
+  get connectionState(): ConnectionState {
+    return this.#state;
+  }
+
+  /**
+   * Subscribe to connection lifecycle changes. Managers that cache the CDP
+   * client use this to re-attach listeners and re-enable domains after a
+   * reconnect. Returns an unsubscribe function.
+   */
+  onConnectionStateChange(listener: ConnectionStateListener): () => void {
+    this.#stateListeners.add(listener);
+    return () => {
+      this.#stateListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Run setup against every newly opened client before a page that is
+   * waiting for the debugger is released, so nothing it does at startup is
+   * missed. Failures are ignored. Returns an unsubscribe function.
+   */
+  onClientOpened(listener: ClientOpenedListener): () => void {
+    this.#clientOpenedListeners.add(listener);
+    return () => {
+      this.#clientOpenedListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Observe every log entry as it is recorded, including ones that later
+   * fall out of the in-memory buffer. Returns an unsubscribe function.
+   */
+  onEntryRecorded(listener: LogEntryListener): () => void {
+    this.#entryListeners.add(listener);
+    return () => {
+      this.#entryListeners.delete(listener);
+    };
   }
 
   async connect(): Promise<void> {
@@ -63,12 +313,26 @@ export class PageSession {
     options: EvaluateOptions = {},
   ): Promise<EvaluateResult> {
     const client = await this.#ensureClient();
-    const result = await client.Runtime.evaluate({
-      expression,
-      awaitPromise: options.awaitPromise ?? true,
-      returnByValue: options.returnByValue ?? true,
-      userGesture: true,
-    });
+    const returnByValue = options.returnByValue ?? true;
+    const objectGroup = returnByValue
+      ? undefined
+      : options.objectGroup ?? DEFAULT_OBJECT_GROUP;
+    const result = options.callFrameId
+      ? await client.Debugger.evaluateOnCallFrame({
+          callFrameId: options.callFrameId,
+          expression,
+          returnByValue,
+          objectGroup,
+          generatePreview: !returnByValue,
+        })
+      : await client.Runtime.evaluate({
+          expression,
+          awaitPromise: options.awaitPromise ?? true,
+          returnByValue,
+          objectGroup,
+          generatePreview: !returnByValue,
+          userGesture: true,
+        });
 
     if (result.exceptionDetails) {
       const message =
@@ -77,13 +341,87 @@ export class PageSession {
       throw new Error(message);
     }
 
+    const remote = result.result as RemoteObjectLike;
     return {
-      type: result.result.type ?? 'undefined',
-      value: this.#formatRemoteObject(result.result),
-      description: result.result.description,
+      type: remote.type ?? 'undefined',
+      value: this.#formatRemoteObject(remote),
+      description: remote.description,
+      subtype: remote.subtype,
+      className: remote.className,
+      objectId: remote.objectId,
+      objectGroup: remote.objectId ? objectGroup : undefined,
+      preview: remote.preview ? this.#formatPreview(remote.preview) : undefined,
     };
   }
 
+  /**
+   * Expand a remote object handle with Runtime.getProperties. Returned
+   * handles belong to the same object group as the inspected object.
+   */
+  async getProperties(
+    objectId: string,
+    options: GetPropertiesOptions = {},
+  ): Promise<ObjectProperties> {
+    const client = await this.#ensureClient();
+    const response = await client.Runtime.getProperties({
+      objectId,
+      ownProperties: options.ownProperties ?? true,
+      accessorPropertiesOnly: options.accessorPropertiesOnly ?? false,
+      generatePreview: true,
+    });
+    if (response.exceptionDetails) {
+      throw new Error(
+        this.#formatExceptionDetails(response.exceptionDetails) ??
+          'Failed to read properties',
+      );
+    }
+
+    let prototypeObjectId: string | undefined;
+    const properties: PropertySummary[] = [];
+    for (const descriptor of response.result ?? []) {
+      if (descriptor.name === '__proto__' && descriptor.value?.objectId) {
+        prototypeObjectId = descriptor.value.objectId;
+      }
+      properties.push({
+        ...this.#summarizeProperty(descriptor.name, descriptor.value),
+        isOwn: descriptor.isOwn,
+        enumerable: descriptor.enumerable,
+        getter: !!descriptor.get && descriptor.get.type !== 'undefined',
+        setter: !!descriptor.set && descriptor.set.type !== 'undefined',
+        wasThrown: descriptor.wasThrown,
+      });
+    }
+
+    const internalProperties: PropertySummary[] = [];
+    for (const descriptor of response.internalProperties ?? []) {
+      if (descriptor.name === '[[Prototype]]' && descriptor.value?.objectId) {
+        prototypeObjectId = descriptor.value.objectId;
+      }
+      internalProperties.push(
+        this.#summarizeProperty(descriptor.name, descriptor.value),
+      );
+    }
+    for (const descriptor of response.privateProperties ?? []) {
+      internalProperties.push({
+        ...this.#summarizeProperty(descriptor.name, descriptor.value),
+        getter: !!descriptor.get,
+        setter: !!descriptor.set,
+      });
+    }
+
+    return {properties, internalProperties, prototypeObjectId};
+  }
+
+  async releaseObjectGroup(objectGroup: string): Promise<void> {
+    const client = await this.#ensureClient();
+    await client.Runtime.releaseObjectGroup({objectGroup});
+  }
+
+  async releaseObject(objectId: string): Promise<void> {
+    const client = await this.#ensureClient();
+    await client.Runtime.releaseObject({objectId});
+  }
+
   async captureScreenshot(options: ScreenshotOptions): Promise<{
     data: string;
     mimeType: string;
@@ -108,22 +446,45 @@ export class PageSession {
     };
   }
 
-  getEntries(params: {
-    limit?: number;
-    kinds?: LogKind[];
-    newestFirst?: boolean;
-  }): PageLogEntry[] {
-    const {limit = 20, kinds, newestFirst = true} = params;
-    const subset = kinds?.length
-      ? this.#entries.filter(entry => kinds.includes(entry.kind))
-      : this.#entries;
-    const slice = subset.slice(Math.max(0, subset.length - limit));
-    return newestFirst ? [...slice].reverse() : slice;
+  /** Id of the most recently recorded entry (0 when none yet). */
+  get lastEntryId(): number {
+    return this.#nextId - 1;
+  }
+
+  /** The most recent main-frame navigation, if one happened while connected. */
+  get lastNavigation(): PageNavigation | undefined {
+    return this.#lastNavigation;
+  }
+
+  /** A buffered entry by id, if it has not been evicted. */
+  getEntry(id: number): PageLogEntry | undefined {
+    return this.#entries.find(entry => entry.id === id);
+  }
+
+  getEntries(params: LogEntryQuery): PageLogEntry[] {
+    return this.queryEntries(params).entries;
+  }
+
+  /** Like getEntries, but also reports how many matches the limit left out. */
+  queryEntries(params: LogEntryQuery): {entries: PageLogEntry[]; remaining: number} {
+    const {limit = 20, newestFirst = true, afterId} = params;
+    const subset = this.#entries.filter(createEntryFilter(params));
+    const slice =
+      afterId !== undefined
+        ? subset.slice(0, limit)
+        : subset.slice(Math.max(0, subset.length - limit));
+    return {
+      entries: newestFirst ? [...slice].reverse() : slice,
+      remaining: subset.length - slice.length,
+    };
   }
 
   clearEntries(): void {
     this.#entries = [];
-    this.#nextId = 1;
+    // Ids keep counting so the log file and afterId cursors never see repeats.
+    if (this.#lastNavigation) {
+      this.#lastNavigation = {...this.#lastNavigation, afterEntryId: 0};
+    }
   }
 
   async sendCommand<T = unknown>(
@@ -163,6 +524,7 @@ export class PageSession {
   }
 
   async dispose(): Promise<void> {
+    this.#disposed = true;
     const client = this.#client;
     this.#client = undefined;
     this.#clientPromise = undefined;
@@ -173,28 +535,123 @@ export class PageSession {
         // Ignore shutdown errors.
       }
     }
+    this.#setState({state: 'disconnected'});
   }
 
   async #ensureClient(): Promise<CDP.Client> {
     if (this.#client) {
       return this.#client;
     }
+    if (this.#disposed) {
+      throw new Error('Page session has been disposed.');
+    }
     if (!this.#clientPromise) {
-      this.#clientPromise = this.#connectInternal();
+      const pending = this.#connectInternal();
+      this.#clientPromise = pending;
+      pending.catch(() => {
+        if (this.#clientPromise === pending) {
+          this.#clientPromise = undefined;
+        }
+      });
     }
-    this.#client = await this.#clientPromise;
-    return this.#client;
+    return await this.#clientPromise;
   }
 
   async #connectInternal(): Promise<CDP.Client> {
-    const client = await CDP({target: this.#endpoint});
-    this.#registerDisconnectHandler(client);
-    await this.#enableDomains(client);
-    this.#registerEventHandlers(client);
-    await this.#maybeRunWaitingDebugger(client);
+    const reconnected = this.#hasConnected;
+    this.#setState({state: reconnected ? 'reconnecting' : 'connecting'});
+    let client: CDP.Client;
+    try {
+      client = await this.#openClient();
+    } catch (error) {
+      this.#setState({
+        state: 'disconnected',
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+    return this.#activateClient(client, reconnected);
+  }
+
+  async #openClient(): Promise<CDP.Client> {
+    const endpoint =
+      typeof this.#endpointSource === 'string'
+        ? this.#endpointSource
+        : await this.#endpointSource();
+    this.#endpoint = endpoint;
+    const client = await CDP({target: endpoint});
+    try {
+      this.#registerDisconnectHandler(client);
+      await this.#enableDomains(client);
+      this.#registerEventHandlers(client);
+      for (const listener of this.#clientOpenedListeners) {
+        await Promise.resolve()
+          .then(() => listener(client))
+          .catch(() => {});
+      }
+      await this.#maybeRunWaitingDebugger(client);
+    } catch (error) {
+      await client.close().catch(() => {});
+      throw error;
+    }
     return client;
   }
 
+  #activateClient(client: CDP.Client, reconnected: boolean): CDP.Client {
+    this.#client = client;
+    this.#hasConnected = true;
+    if (reconnected) {
+      this.#recordConnectionEntry('info', 'DevTools connection re-established.');
+    }
+    this.#setState({state: 'connected', client, reconnected});
+    return client;
+  }
+
+  async #reconnectWithBackoff(): Promise<CDP.Client> {
+    const {initialDelayMs, maxDelayMs, maxAttempts} = this.#reconnect;
+    let delay = initialDelayMs;
+    let lastError: unknown;
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      await sleep(delay);
+      if (this.#disposed) {
+        throw new Error('Page session has been disposed.');
+      }
+      this.#setState({state: 'reconnecting', attempt});
+      try {
+        const client = await this.#openClient();
+        if (this.#disposed) {
+          await client.close().catch(() => {});
+          throw new Error('Page session has been disposed.');
+        }
+        return this.#activateClient(client, true);
+      } catch (error) {
+        lastError = error;
+        delay = Math.min(delay * 2, maxDelayMs);
+      }
+    }
+    const reason =
+      lastError instanceof Error ? lastError.message : 'unknown error';
+    this.#recordConnectionEntry(
+      'error',
+      `Giving up on DevTools reconnect after ${maxAttempts} attempts: ${reason}`,
+    );
+    this.#setState({state: 'disconnected', error: reason});
+    throw new Error(
+      `Unable to reconnect to ${this.#endpoint ?? 'page target'}: ${reason}`,
+    );
+  }
+
+  #setState(event: ConnectionStateEvent): void {
+    this.#state = event.state;
+    for (const listener of this.#stateListeners) {
+      try {
+        listener(event);
+      } catch {
+        // Listener failures must not break the connection lifecycle.
+      }
+    }
+  }
+
   async #enableDomains(client: CDP.Client): Promise<void> {
     await client.Runtime.enable();
     await client.Page.enable().catch(() => {});
@@ -216,27 +673,71 @@ export class PageSession {
 
   #registerDisconnectHandler(client: CDP.Client): void {
     client.on('disconnect', () => {
+      if (this.#client !== client) {
+        return;
+      }
       this.#client = undefined;
       this.#clientPromise = undefined;
-      this.#entries = [];
-      this.#nextId = 1;
+      if (this.#disposed) {
+        return;
+      }
+      if (!this.#reconnect.enabled) {
+        this.#recordConnectionEntry('warning', 'DevTools connection lost.');
+        this.#setState({state: 'disconnected'});
+        return;
+      }
+      this.#recordConnectionEntry(
+        'warning',
+        'DevTools connection lost; attempting to reconnect.',
+      );
+      this.#setState({state: 'reconnecting', attempt: 0});
+      const pending = this.#reconnectWithBackoff();
+      this.#clientPromise = pending;
+      pending.catch(() => {
+        if (this.#clientPromise === pending) {
+          this.#clientPromise = undefined;
+        }
+      });
+    });
+  }
+
+  #recordConnectionEntry(level: string, message: string): void {
+    this.#recordEntry({
+      kind: 'log',
+      level,
+      message,
+      timestamp: new Date(),
+      source: 'devtools-connection',
     });
   }
 
   #registerEventHandlers(client: CDP.Client): void {
     client.Runtime.consoleAPICalled(params => {
+      const args = (params.args ?? []).map(arg => this.#describeArgument(arg));
       const message =
-        params.args && params.args.length > 0
-          ? params.args
-              .map(arg => this.#formatRemoteObject(arg))
+        args.length > 0
+          ? args
+              .map(arg => (arg.preview ? `${arg.value} ${arg.preview}` : arg.value))
               .join(' ')
           : params.type ?? 'log';
+      let stack = toFrameLocations(params.stackTrace?.callFrames);
+      // Logpoint output comes from its condition script; report the code it sits in.
+      const logpointId = stack?.[0]?.url?.startsWith(LOGPOINT_URL_PREFIX)
+        ? stack[0].url.slice(LOGPOINT_URL_PREFIX.length)
+        : undefined;
+      if (logpointId) {
+        stack = stack?.slice(1);
+      }
       this.#recordEntry({
-        kind: 'console',
+        kind: logpointId ? 'logpoint' : 'console',
         level: params.type ?? 'log',
         message: message ?? '',
         timestamp: this.#timestampFromSeconds(params.timestamp),
-        url: params.stackTrace?.callFrames?.[0]?.url,
+        source: logpointId,
+        url: stack?.[0]?.url,
+        location: stack?.[0],
+        stack,
+        args,
       });
     });
 
@@ -250,9 +751,70 @@ export class PageSession {
         message,
         timestamp: this.#timestampFromSeconds(params.timestamp),
         url: details.url,
+        location: exceptionLocation(details),
+        stack: toFrameLocations(details.stackTrace?.callFrames),
+        exception: {
+          scriptId: details.scriptId,
+          url: details.url,
+          lineNumber: details.lineNumber,
+          columnNumber: details.columnNumber,
+          description: details.exception?.description,
+          className: details.exception?.className,
+          objectId: details.exception?.objectId,
+        },
+      });
+    });
+
+    client.on('Debugger.paused', params => {
+      const stack = toFrameLocations(
+        params.callFrames.map(frame => ({
+          functionName: frame.functionName,
+          url: frame.url,
+          scriptId: frame.location.scriptId,
+          lineNumber: frame.location.lineNumber,
+          columnNumber: frame.location.columnNumber ?? 0,
+        })),
+      );
+      const top = stack?.[0];
+      const where = top
+        ? ` at ${top.functionName || '<anonymous>'} (${top.url || '<anonymous>'}:${top.lineNumber + 1}:${top.columnNumber + 1})`
+        : '';
+      const breakpoints = params.hitBreakpoints?.length
+        ? ` [${params.hitBreakpoints.join(', ')}]`
+        : '';
+      this.#recordEntry({
+        kind: 'log',
+        level: 'info',
+        message: `Debugger paused (${params.reason})${where}${breakpoints}`,
+        timestamp: new Date(),
+        source: 'debugger',
+        url: top?.url,
+        location: top,
+        stack,
+      });
+    });
+
+    client.on('Debugger.resumed', () => {
+      this.#recordEntry({
+        kind: 'log',
+        level: 'info',
+        message: 'Debugger resumed.',
+        timestamp: new Date(),
+        source: 'debugger',
       });
     });
 
+    client.on('Page.frameNavigated', ({frame}) => {
+      if (frame.parentId) {
+        return;
+      }
+      this.#lastNavigation = {
+        url: frame.url,
+        at: new Date(),
+        afterEntryId: this.lastEntryId,
+      };
+    });
+
     client.Log.entryAdded?.(({entry}) => {
       this.#recordEntry({
         kind: 'log',
@@ -261,6 +823,10 @@ export class PageSession {
         timestamp: this.#timestampFromSeconds(entry.timestamp),
         source: entry.source,
         url: entry.url,
+        location:
+          entry.url && entry.lineNumber !== undefined
+            ? {url: entry.url, lineNumber: entry.lineNumber, columnNumber: 0}
+            : undefined,
       });
     });
   }
@@ -271,8 +837,15 @@ export class PageSession {
       id: this.#nextId++,
     };
     this.#entries.push(withId);
-    if (this.#entries.length > MAX_BUFFERED_ENTRIES) {
-      this.#entries.splice(0, this.#entries.length - MAX_BUFFERED_ENTRIES);
+    if (this.#entries.length > this.#maxBufferedEntries) {
+      this.#entries.splice(0, this.#entries.length - this.#maxBufferedEntries);
+    }
+    for (const listener of this.#entryListeners) {
+      try {
+        listener(withId);
+      } catch {
+        // A failing observer must not break log collection.
+      }
     }
   }
 
@@ -306,6 +879,75 @@ export class PageSession {
     return remote.type ?? 'undefined';
   }
 
+  #describeArgument(raw: unknown): LogArgument {
+    const remote = (raw ?? {type: 'undefined'}) as RemoteObjectLike;
+    return {
+      type: remote.type ?? 'undefined',
+      subtype: remote.subtype,
+      className: remote.className,
+      value:
+        remote.type === 'object' && remote.preview
+          ? remote.description ?? remote.className ?? 'Object'
+          : this.#formatRemoteObject(remote),
+      preview:
+        remote.type === 'object' && remote.preview
+          ? this.#formatPreview(remote.preview)
+          : undefined,
+      objectId: remote.objectId,
+    };
+  }
+
+  #summarizeProperty(name: string, raw: unknown): PropertySummary {
+    const remote = (raw ?? {type: 'undefined'}) as RemoteObjectLike;
+    const type = remote.type ?? 'undefined';
+    const value =
+      type === 'string' && typeof remote.value === 'string'
+        ? JSON.stringify(remote.value)
+        : remote.preview && remote.type === 'object'
+          ? `${remote.description ?? remote.className ?? 'Object'} ${this.#formatPreview(remote.preview)}`
+          : this.#formatRemoteObject(remote);
+    return {
+      name,
+      type,
+      subtype: remote.subtype,
+      value,
+      objectId: remote.objectId,
+    };
+  }
+
+  #formatPreview(preview: ObjectPreviewLike): string {
+    const more = preview.overflow ? ', …' : '';
+    if (preview.entries?.length) {
+      const entries = preview.entries.map(entry => {
+        const value = this.#formatPreviewValue(entry.value);
+        return entry.key
+          ? `${this.#formatPreviewValue(entry.key)} => ${value}`
+          : value;
+      });
+      return `{${entries.join(', ')}${more}}`;
+    }
+    const properties = (preview.properties ?? []).map(property => {
+      const value =
+        property.type === 'string'
+          ? JSON.stringify(property.value ?? '')
+          : property.type === 'accessor'
+            ? '(...)'
+            : property.value ?? property.type;
+      return `${property.name}: ${value}`;
+    });
+    if (preview.subtype === 'array') {
+      return `[${properties.join(', ')}${more}]`;
+    }
+    return `{${properties.join(', ')}${more}}`;
+  }
+
+  #formatPreviewValue(preview: ObjectPreviewLike): string {
+    if (preview.type === 'string') {
+      return JSON.stringify(preview.description ?? '');
+    }
+    return preview.description ?? preview.type ?? 'undefined';
+  }
+
   #formatExceptionDetails(details: unknown): string | undefined {
     const exceptionDetails = details as {
       text?: string;
@@ -376,3 +1018,82 @@ export class PageSession {
     });
   }
 }
+
+/** Prefer the thrown error's top frame; fall back to the reported position. */
+function exceptionLocation(details: {
+  url?: string;
+  scriptId?: string;
+  lineNumber: number;
+  columnNumber: number;
+  stackTrace?: {callFrames: FrameLocation[]};
+}): FrameLocation | undefined {
+  const frame = toFrameLocations(details.stackTrace?.callFrames)?.[0];
+  if (frame) {
+    return frame;
+  }
+  if (!details.url && !details.scriptId) {
+    return undefined;
+  }
+  return {
+    url: details.url,
+    scriptId: details.scriptId,
+    lineNumber: details.lineNumber,
+    columnNumber: details.columnNumber,
+  };
+}
+
+/** Predicate applying every filter of a query except its limit and order. */
+export function createEntryFilter(params: LogEntryQuery): (entry: PageLogEntry) => boolean {
+  const {kinds, afterId} = params;
+  const levels = params.levels?.length
+    ? new Set(params.levels.map(normalizeLevel))
+    : undefined;
+  const url = params.url?.toLowerCase();
+  const source = params.source?.toLowerCase();
+  return entry => {
+    if (kinds?.length && !kinds.includes(entry.kind)) {
+      return false;
+    }
+    if (afterId !== undefined && entry.id <= afterId) {
+      return false;
+    }
+    if (levels && !levels.has(normalizeLevel(entry.level))) {
+      return false;
+    }
+    if (url && !entry.url?.toLowerCase().includes(url)) {
+      return false;
+    }
+    if (source && !entry.source?.toLowerCase().includes(source)) {
+      return false;
+    }
+    if (params.since && entry.timestamp < params.since) {
+      return false;
+    }
+    if (params.until && entry.timestamp > params.until) {
+      return false;
+    }
+    return !params.search || params.search.test(entry.message);
+  };
+}
+
+function toFrameLocations(frames?: FrameLocation[]): FrameLocation[] | undefined {
+  if (!frames?.length) {
+    return undefined;
+  }
+  return frames.map(frame => ({
+    functionName: frame.functionName,
+    url: frame.url,
+    scriptId: frame.scriptId,
+    lineNumber: frame.lineNumber,
+    columnNumber: frame.columnNumber,
+  }));
+}
+
+function normalizeLevel(level: string): string {
+  const lower = level.toLowerCase();
+  return lower === 'warn' ? 'warning' : lower;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
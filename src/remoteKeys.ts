@@ -0,0 +1,102 @@
+import type {PageSession} from './pageSession.js';
+
+export interface RemoteKeyMapping {
+  key: string;
+  code: string;
+  keyCode: number;
+}
+
+export const KEY_MAP: Record<string, RemoteKeyMapping> = {
+  up: {key: 'ArrowUp', code: 'ArrowUp', keyCode: 38},
+  down: {key: 'ArrowDown', code: 'ArrowDown', keyCode: 40},
+  left: {key: 'ArrowLeft', code: 'ArrowLeft', keyCode: 37},
+  right: {key: 'ArrowRight', code: 'ArrowRight', keyCode: 39},
+  ok: {key: 'Enter', code: 'Enter', keyCode: 13},
+  back: {key: 'GoBack', code: 'BrowserBack', keyCode: 461},
+  red: {key: 'F1', code: 'F1', keyCode: 403},
+  green: {key: 'F2', code: 'F2', keyCode: 404},
+  yellow: {key: 'F3', code: 'F3', keyCode: 405},
+  blue: {key: 'F4', code: 'F4', keyCode: 406},
+  home: {key: 'Home', code: 'Home', keyCode: 36},
+  menu: {key: 'ContextMenu', code: 'ContextMenu', keyCode: 93},
+  info: {key: 'Info', code: 'Info', keyCode: 457},
+  exit: {key: 'Exit', code: 'Exit', keyCode: 464},
+  channelup: {key: 'ChannelUp', code: 'ChannelUp', keyCode: 402},
+  channeldown: {key: 'ChannelDown', code: 'ChannelDown', keyCode: 401},
+  volumeup: {key: 'AudioVolumeUp', code: 'AudioVolumeUp', keyCode: 175},
+  volumedown: {key: 'AudioVolumeDown', code: 'AudioVolumeDown', keyCode: 174},
+  mute: {key: 'AudioVolumeMute', code: 'AudioVolumeMute', keyCode: 173},
+  digit0: {key: '0', code: 'Digit0', keyCode: 48},
+  digit1: {key: '1', code: 'Digit1', keyCode: 49},
+  digit2: {key: '2', code: 'Digit2', keyCode: 50},
+  digit3: {key: '3', code: 'Digit3', keyCode: 51},
+  digit4: {key: '4', code: 'Digit4', keyCode: 52},
+  digit5: {key: '5', code: 'Digit5', keyCode: 53},
+  digit6: {key: '6', code: 'Digit6', keyCode: 54},
+  digit7: {key: '7', code: 'Digit7', keyCode: 55},
+  digit8: {key: '8', code: 'Digit8', keyCode: 56},
+  digit9: {key: '9', code: 'Digit9', keyCode: 57},
+  play: {key: 'MediaPlay', code: 'MediaPlay', keyCode: 179},
+  pause: {key: 'MediaPause', code: 'MediaPause', keyCode: 19},
+  stop: {key: 'MediaStop', code: 'MediaStop', keyCode: 178},
+  fastforward: {key: 'MediaFastForward', code: 'MediaFastForward', keyCode: 228},
+  rewind: {key: 'MediaRewind', code: 'MediaRewind', keyCode: 227},
+};
+
+export type RemoteKeyName = keyof typeof KEY_MAP;
+
+export interface PressKeyOptions {
+  repeat?: number;
+  delayMs?: number;
+  customKey?: string;
+  customCode?: string;
+  customKeyCode?: number;
+}
+
+export class RemoteKeys {
+  #session: PageSession;
+
+  constructor(session: PageSession) {
+    this.#session = session;
+  }
+
+  async press(key: string, options: PressKeyOptions = {}): Promise<void> {
+    const {repeat = 1, delayMs = 0, customKey, customCode, customKeyCode} = options;
+    const mapping = KEY_MAP[key];
+    if (!mapping && (!customKey || customKeyCode === undefined)) {
+      throw new Error(
+        `Unsupported key: ${key}. Provide customKey/customKeyCode to override.`,
+      );
+    }
+    const keyValue = customKey ?? mapping?.key ?? 'Unidentified';
+    const codeValue = customCode ?? mapping?.code ?? 'Unidentified';
+    const keyCode = customKeyCode ?? mapping?.keyCode ?? 0;
+    const client = await this.#session.getClient();
+    for (let i = 0; i < repeat; i++) {
+      await client.Input.dispatchKeyEvent({
+        type: 'keyDown',
+        key: keyValue,
+        code: codeValue,
+        windowsVirtualKeyCode: keyCode,
+        nativeVirtualKeyCode: keyCode,
+        unmodifiedText: keyValue.length === 1 ? keyValue : undefined,
+        text: keyValue.length === 1 ? keyValue : undefined,
+      });
+      await client.Input.dispatchKeyEvent({
+        type: 'keyUp',
+        key: keyValue,
+        code: codeValue,
+        windowsVirtualKeyCode: keyCode,
+        nativeVirtualKeyCode: keyCode,
+      });
+      if (delayMs > 0 && i + 1 < repeat) {
+        await new Promise(resolve => setTimeout(resolve, delayMs));
+      }
+    }
+  }
+
+  async typeText(text: string): Promise<void> {
+    const client = await this.#session.getClient();
+    await client.Input.insertText({text});
+  }
+}
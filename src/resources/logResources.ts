@@ -0,0 +1,200 @@
+import {ResourceTemplate, type McpServer} from '@modelcontextprotocol/sdk/server/mcp.js';
+import {
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+} from '@modelcontextprotocol/sdk/types.js';
+
+import {toPersistedEntry} from '../logPersistence.js';
+import {
+  createEntryFilter,
+  LOG_KINDS,
+  type LogEntryQuery,
+  type LogKind,
+  type PageLogEntry,
+} from '../pageSession.js';
+import {compileSearchPattern} from '../searchPattern.js';
+import type {SessionRegistry} from '../sessionRegistry.js';
+import {parseTimeBound} from '../tools/logTools.js';
+
+const LOG_ENTRIES_URI = 'logs://entries';
+const DEFAULT_RESOURCE_LIMIT = 100;
+// Coalesce bursts of console output into one update per subscribed URI.
+const UPDATE_DEBOUNCE_MS = 250;
+
+interface LogResourceQuery {
+  /** Explicit target; otherwise whichever target is active when read. */
+  target?: string;
+  query: LogEntryQuery;
+  afterId?: number;
+  limit: number;
+}
+
+/**
+ * Expose each target's log buffer as `logs://entries?target=…&level=…`.
+ * Clients may subscribe to any such URI and receive
+ * notifications/resources/updated when a matching entry is recorded, then
+ * read again with `afterId` to fetch only what is new.
+ */
+export function registerLogResources(server: McpServer, sessions: SessionRegistry): void {
+  const read = async (uri: URL) => {
+    const parsed = parseLogResourceUri(uri);
+    const session = sessions.get(parsed.target);
+    const targetName = sessions.nameOf(session) ?? parsed.target ?? 'default';
+    const {entries, remaining} = session.queryEntries({
+      ...parsed.query,
+      afterId: parsed.afterId,
+      limit: parsed.limit,
+      newestFirst: false,
+    });
+    const lastId = entries.length ? entries[entries.length - 1]!.id : undefined;
+    const body = {
+      target: targetName,
+      entries: entries.map(entry => toPersistedEntry(targetName, entry)),
+      // Pass back as afterId to read only entries recorded since this one.
+      nextAfterId: lastId ?? parsed.afterId ?? session.lastEntryId,
+      remaining,
+    };
+    return {
+      contents: [
+        {
+          uri: uri.href,
+          mimeType: 'application/json',
+          text: JSON.stringify(body, null, 2),
+        },
+      ],
+    };
+  };
+
+  server.registerResource(
+    'logs/entries',
+    LOG_ENTRIES_URI,
+    {
+      title: 'Log Entries',
+      description:
+        'Buffered log entries of the active target as JSON. Add query parameters (target, level, kind, search, url, source, since, afterId, limit) to filter; subscribe for update notifications.',
+      mimeType: 'application/json',
+    },
+    read,
+  );
+
+  server.registerResource(
+    'logs/entries-filtered',
+    new ResourceTemplate(`${LOG_ENTRIES_URI}{+query}`, {
+      list: async () => ({
+        resources: sessions.list().map(target => ({
+          uri: `${LOG_ENTRIES_URI}?target=${encodeURIComponent(target.name)}`,
+          name: `logs/${target.name}`,
+          title: `Log entries for ${target.name}`,
+          mimeType: 'application/json',
+        })),
+      }),
+    }),
+    {
+      title: 'Filtered Log Entries',
+      description:
+        'Log entries filtered by query parameters, e.g. logs://entries?level=error or ?target=tv2&search=/timeout/i&afterId=120.',
+      mimeType: 'application/json',
+    },
+    read,
+  );
+
+  const subscriptions = new Map<string, LogResourceQuery>();
+  const pendingUpdates = new Map<string, NodeJS.Timeout>();
+
+  server.server.registerCapabilities({resources: {subscribe: true}});
+  server.server.setRequestHandler(SubscribeRequestSchema, async request => {
+    const {uri} = request.params;
+    if (!isLogResourceUri(uri)) {
+      throw new Error(`Subscriptions are only supported for ${LOG_ENTRIES_URI} resources.`);
+    }
+    subscriptions.set(uri, parseLogResourceUri(new URL(uri)));
+    return {};
+  });
+  server.server.setRequestHandler(UnsubscribeRequestSchema, async request => {
+    const {uri} = request.params;
+    subscriptions.delete(uri);
+    clearTimeout(pendingUpdates.get(uri));
+    pendingUpdates.delete(uri);
+    return {};
+  });
+
+  const notify = (uri: string) => {
+    if (pendingUpdates.has(uri)) {
+      return;
+    }
+    const timer = setTimeout(() => {
+      pendingUpdates.delete(uri);
+      if (subscriptions.has(uri)) {
+        void server.server.sendResourceUpdated({uri}).catch(() => {});
+      }
+    }, UPDATE_DEBOUNCE_MS);
+    timer.unref?.();
+    pendingUpdates.set(uri, timer);
+  };
+
+  sessions.onSessionCreated((session, name) => {
+    session.onEntryRecorded((entry: PageLogEntry) => {
+      for (const [uri, subscription] of subscriptions) {
+        const target = subscription.target ?? sessions.activeName;
+        if (target !== name) {
+          continue;
+        }
+        // The cursor in a subscribed URI is only a starting point.
+        if (createEntryFilter(subscription.query)(entry)) {
+          notify(uri);
+        }
+      }
+    });
+  });
+}
+
+function isLogResourceUri(uri: string): boolean {
+  return uri === LOG_ENTRIES_URI || uri.startsWith(`${LOG_ENTRIES_URI}?`);
+}
+
+function isLogKind(value: string): value is LogKind {
+  return (LOG_KINDS as string[]).includes(value);
+}
+
+function parseLogResourceUri(uri: URL): LogResourceQuery {
+  const params = uri.searchParams;
+  const list = (name: string) =>
+    params
+      .getAll(name)
+      .flatMap(value => value.split(','))
+      .map(value => value.trim())
+      .filter(Boolean);
+  const integer = (name: string) => {
+    const value = params.get(name);
+    if (value === null) {
+      return undefined;
+    }
+    const parsed = Number(value);
+    if (!Number.isInteger(parsed) || parsed < 0) {
+      throw new Error(`Invalid ${name} "${value}" in ${uri.href}.`);
+    }
+    return parsed;
+  };
+  const levels = list('level');
+  const kinds = list('kind').map(kind => {
+    if (!isLogKind(kind)) {
+      throw new Error(`Invalid kind "${kind}" in ${uri.href}; expected one of ${LOG_KINDS.join(', ')}.`);
+    }
+    return kind;
+  });
+  const search = params.get('search');
+  const since = params.get('since');
+  return {
+    target: params.get('target') ?? undefined,
+    query: {
+      levels: levels.length ? levels : undefined,
+      kinds: kinds.length ? kinds : undefined,
+      search: search ? compileSearchPattern(search) : undefined,
+      url: params.get('url') ?? undefined,
+      source: params.get('source') ?? undefined,
+      since: since ? parseTimeBound(since) : undefined,
+    },
+    afterId: integer('afterId'),
+    limit: integer('limit') ?? DEFAULT_RESOURCE_LIMIT,
+  };
+}
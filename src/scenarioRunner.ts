@@ -0,0 +1,249 @@
+import {DomActions} from './domActions.js';
+import type {PageLogEntry, PageSession} from './pageSession.js';
+import {RemoteKeys} from './remoteKeys.js';
+
+const WAIT_POLL_INTERVAL_MS = 100;
+
+// Only used to syntax-check assertions; nothing is executed in Node.
+const AsyncFunction = Object.getPrototypeOf(async () => {}).constructor as new (
+  body: string,
+) => unknown;
+
+export type ScenarioStep =
+  | {action: 'navigate'; url: string; waitForLoad?: boolean; timeoutMs?: number}
+  | {action: 'reload'; ignoreCache?: boolean; waitForLoad?: boolean; timeoutMs?: number}
+  | {
+      action: 'pressKey';
+      key: string;
+      repeat?: number;
+      delayMs?: number;
+      customKey?: string;
+      customCode?: string;
+      customKeyCode?: number;
+    }
+  | {action: 'click'; selector: string; index?: number}
+  | {action: 'type'; selector: string; text: string; index?: number; replace?: boolean; submit?: boolean}
+  | {action: 'waitForSelector'; selector: string; visible?: boolean; timeoutMs?: number}
+  | {action: 'wait'; ms: number}
+  | {action: 'evaluate'; expression: string; awaitPromise?: boolean}
+  | {action: 'screenshot'; format?: 'png' | 'jpeg' | 'webp'; quality?: number}
+  | {action: 'assert'; expression: string; equals?: unknown; message?: string};
+
+export interface ScenarioOptions {
+  /** Stop at the first failing step (default true). */
+  stopOnFailure?: boolean;
+  /** Attach log entries recorded while each step ran (default true). */
+  includeLogs?: boolean;
+  /** Capture a screenshot when a step fails (default false). */
+  screenshotOnFailure?: boolean;
+}
+
+export interface ScenarioScreenshot {
+  data: string;
+  mimeType: string;
+}
+
+export interface ScenarioStepReport {
+  index: number;
+  step: ScenarioStep;
+  status: 'passed' | 'failed' | 'skipped';
+  startedAt: Date;
+  durationMs: number;
+  detail?: string;
+  error?: string;
+  screenshot?: ScenarioScreenshot;
+  logs: PageLogEntry[];
+}
+
+export interface ScenarioReport {
+  passed: boolean;
+  durationMs: number;
+  steps: ScenarioStepReport[];
+}
+
+/**
+ * Executes a list of page interactions server-side so timing between steps
+ * is not subject to MCP round-trip jitter.
+ */
+export class ScenarioRunner {
+  #session: PageSession;
+  #actions: DomActions;
+  #keys: RemoteKeys;
+
+  constructor(session: PageSession) {
+    this.#session = session;
+    this.#actions = new DomActions(session);
+    this.#keys = new RemoteKeys(session);
+  }
+
+  async run(steps: ScenarioStep[], options: ScenarioOptions = {}): Promise<ScenarioReport> {
+    const {stopOnFailure = true, includeLogs = true, screenshotOnFailure = false} = options;
+    const reports: ScenarioStepReport[] = [];
+    const scenarioStart = performance.now();
+    let failed = false;
+
+    for (const [index, step] of steps.entries()) {
+      if (failed && stopOnFailure) {
+        reports.push({
+          index,
+          step,
+          status: 'skipped',
+          startedAt: new Date(),
+          durationMs: 0,
+          logs: [],
+        });
+        continue;
+      }
+
+      const lastEntryId = this.#session.lastEntryId;
+      const startedAt = new Date();
+      const stepStart = performance.now();
+      const report: ScenarioStepReport = {
+        index,
+        step,
+        status: 'passed',
+        startedAt,
+        durationMs: 0,
+        logs: [],
+      };
+      try {
+        const outcome = await this.#runStep(step);
+        report.detail = outcome.detail;
+        report.screenshot = outcome.screenshot;
+      } catch (error) {
+        failed = true;
+        report.status = 'failed';
+        report.error = error instanceof Error ? error.message : String(error);
+        if (screenshotOnFailure) {
+          report.screenshot = await this.#session
+            .captureScreenshot({format: 'png'})
+            .catch(() => undefined);
+        }
+      }
+      report.durationMs = performance.now() - stepStart;
+      if (includeLogs) {
+        report.logs = this.#session.getEntries({
+          afterId: lastEntryId,
+          limit: Number.MAX_SAFE_INTEGER,
+          newestFirst: false,
+        });
+      }
+      reports.push(report);
+    }
+
+    return {
+      passed: !failed,
+      durationMs: performance.now() - scenarioStart,
+      steps: reports,
+    };
+  }
+
+  async #runStep(step: ScenarioStep): Promise<{detail?: string; screenshot?: ScenarioScreenshot}> {
+    switch (step.action) {
+      case 'navigate':
+        await this.#session.navigate(step.url, {
+          waitForLoad: step.waitForLoad,
+          timeoutMs: step.timeoutMs,
+        });
+        return {};
+      case 'reload':
+        await this.#session.reload({
+          ignoreCache: step.ignoreCache,
+          waitForLoad: step.waitForLoad,
+          timeoutMs: step.timeoutMs,
+        });
+        return {};
+      case 'pressKey':
+        await this.#keys.press(step.key, step);
+        return {};
+      case 'click':
+        await this.#actions.click({selector: step.selector, index: step.index});
+        return {};
+      case 'type':
+        await this.#actions.type(step);
+        return {};
+      case 'waitForSelector':
+        return {detail: await this.#waitForSelector(step.selector, step.visible ?? false, step.timeoutMs ?? 5_000)};
+      case 'wait':
+        await sleep(step.ms);
+        return {};
+      case 'evaluate': {
+        const result = await this.#session.evaluate(step.expression, {
+          awaitPromise: step.awaitPromise,
+        });
+        return {detail: `${result.type}: ${result.value}`};
+      }
+      case 'screenshot':
+        return {
+          screenshot: await this.#session.captureScreenshot({
+            format: step.format ?? 'png',
+            quality: step.quality,
+          }),
+        };
+      case 'assert':
+        return {detail: await this.#assert(step.expression, step.equals, step.message)};
+    }
+  }
+
+  async #waitForSelector(selector: string, visible: boolean, timeoutMs: number): Promise<string> {
+    const expression = `(() => {
+      const el = document.querySelector(${JSON.stringify(selector)});
+      if (!el) {
+        return false;
+      }
+      if (!${visible}) {
+        return true;
+      }
+      const rect = el.getBoundingClientRect();
+      const style = window.getComputedStyle(el);
+      return rect.width > 0 && rect.height > 0 && style.visibility !== 'hidden' && style.display !== 'none';
+    })()`;
+    const started = performance.now();
+    while (true) {
+      const result = await this.#session.evaluate(expression);
+      if (result.value === 'true') {
+        return `found after ${Math.round(performance.now() - started)} ms`;
+      }
+      if (performance.now() - started >= timeoutMs) {
+        throw new Error(
+          `Timed out after ${timeoutMs} ms waiting for ${visible ? 'visible ' : ''}${selector}`,
+        );
+      }
+      await sleep(WAIT_POLL_INTERVAL_MS);
+    }
+  }
+
+  async #assert(source: string, equals: unknown, message?: string): Promise<string> {
+    // The expression is wrapped below, so a trailing `;` would break it.
+    const expression = source.trim().replace(/;+$/, '').trim();
+    try {
+      new AsyncFunction(`return (${expression});`);
+    } catch (error) {
+      throw new Error(
+        `assert needs a single JavaScript expression, not statements: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+    const wrapped =
+      equals === undefined
+        ? `(async () => !!(await (${expression})))()`
+        : `(async () => JSON.stringify(await (${expression})))()`;
+    const result = await this.#session.evaluate(wrapped);
+    if (equals === undefined) {
+      if (result.value !== 'true') {
+        throw new Error(message ?? `Assertion failed: ${expression} is falsy`);
+      }
+      return 'truthy';
+    }
+    const expected = JSON.stringify(equals);
+    if (result.value !== expected) {
+      throw new Error(
+        message ?? `Assertion failed: ${expression} = ${result.value}, expected ${expected}`,
+      );
+    }
+    return `equals ${expected}`;
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
@@ -0,0 +1,455 @@
+import {readFile} from 'node:fs/promises';
+import {basename, join} from 'node:path';
+
+import type CDP from 'chrome-remote-interface';
+
+import type {PageSession} from './pageSession.js';
+import {escapeRegex} from './searchPattern.js';
+import {SourceMap, resolveSourceUrl} from './sourceMap.js';
+
+// How far back from a frame to look for the enclosing function's declaration.
+const FUNCTION_NAME_SEARCH_CHARS = 20_000;
+// A stalled map request must not leave resolve() pending, since it is cached.
+const SOURCE_MAP_FETCH_TIMEOUT_MS = 10_000;
+
+export interface ScriptInfo {
+  scriptId: string;
+  url: string;
+  sourceMapURL?: string;
+  startLine: number;
+  startColumn: number;
+  endLine: number;
+  endColumn: number;
+  /** Source length in characters, when Chrome reports it. */
+  length?: number;
+  hash: string;
+  executionContextId: number;
+  isModule?: boolean;
+  parsedAt: Date;
+}
+
+/** A generated location as found in CDP stack traces (zero-based). */
+export interface FrameLocation {
+  functionName?: string;
+  url?: string;
+  scriptId?: string;
+  lineNumber: number;
+  columnNumber: number;
+}
+
+export interface OriginalLocation {
+  url: string;
+  lineNumber: number;
+  columnNumber: number;
+  functionName?: string;
+}
+
+/** A generated location that an original source position maps to. */
+export interface GeneratedLocation {
+  script: ScriptInfo;
+  /** The map's full name for the matched original source. */
+  source: string;
+  lineNumber: number;
+  columnNumber: number;
+}
+
+/** A line containing a search match (zero-based, relative to the document). */
+export interface ScriptSearchMatch {
+  lineNumber: number;
+  lineContent: string;
+}
+
+export interface ScriptSearchOptions {
+  caseSensitive?: boolean;
+  isRegex?: boolean;
+}
+
+export interface ScriptCatalogOptions {
+  /** Local directory searched for `<name>.map` files before asking the page. */
+  sourceMapsDir?: string;
+}
+
+interface ScriptParsedEvent {
+  scriptId: string;
+  url: string;
+  startLine: number;
+  startColumn: number;
+  endLine: number;
+  endColumn: number;
+  executionContextId: number;
+  hash: string;
+  sourceMapURL?: string;
+  length?: number;
+  isModule?: boolean;
+}
+
+/**
+ * Tracks the scripts a page has parsed (via Debugger.scriptParsed) and maps
+ * generated locations back to original sources through their source maps.
+ */
+export class ScriptCatalog {
+  #session: PageSession;
+  #sourceMapsDir?: string;
+  #client?: CDP.Client;
+  #scripts = new Map<string, ScriptInfo>();
+  #maps = new Map<string, Promise<SourceMap | undefined>>();
+  #sources = new Map<string, Promise<string | undefined>>();
+  #mapErrors = new Map<string, string>();
+
+  constructor(session: PageSession, options: ScriptCatalogOptions = {}) {
+    this.#session = session;
+    this.#sourceMapsDir = options.sourceMapsDir;
+    // Attach before a waiting page is released so startup scripts are seen.
+    this.#session.onClientOpened(client => this.#attach(client));
+  }
+
+  list(): ScriptInfo[] {
+    return Array.from(this.#scripts.values());
+  }
+
+  get(scriptId: string): ScriptInfo | undefined {
+    return this.#scripts.get(scriptId);
+  }
+
+  /** Most recently parsed script with this URL. */
+  findByUrl(url: string): ScriptInfo | undefined {
+    let found: ScriptInfo | undefined;
+    for (const script of this.#scripts.values()) {
+      if (script.url === url) {
+        found = script;
+      }
+    }
+    return found;
+  }
+
+  /** Why the source map for a script could not be loaded, if it failed. */
+  sourceMapError(script: ScriptInfo): string | undefined {
+    const key = this.#mapKey(script);
+    return key ? this.#mapErrors.get(key) : undefined;
+  }
+
+  async sourceMapFor(script: ScriptInfo): Promise<SourceMap | undefined> {
+    const key = this.#mapKey(script);
+    if (!key) {
+      return undefined;
+    }
+    let pending = this.#maps.get(key);
+    if (!pending && this.#session.debugger.paused) {
+      // A paused page cannot answer the map XHR; use local maps and retry
+      // the page once it resumes.
+      const map = await this.#loadSourceMap(script, false).catch(() => undefined);
+      if (map) {
+        this.#maps.set(key, Promise.resolve(map));
+      }
+      return map;
+    }
+    if (!pending) {
+      pending = this.#loadSourceMap(script, true).catch(error => {
+        this.#mapErrors.set(key, error instanceof Error ? error.message : String(error));
+        return undefined;
+      });
+      this.#maps.set(key, pending);
+    }
+    return pending;
+  }
+
+  async getSource(scriptId: string): Promise<string | undefined> {
+    let pending = this.#sources.get(scriptId);
+    if (!pending) {
+      pending = this.#session
+        .getClient()
+        .then(client => client.Debugger.getScriptSource({scriptId}))
+        .then(result => result.scriptSource)
+        .catch(() => undefined);
+      this.#sources.set(scriptId, pending);
+    }
+    return pending;
+  }
+
+  /** Lines of a script matching `query`, via Debugger.searchInContent. */
+  async search(
+    script: ScriptInfo,
+    query: string,
+    options: ScriptSearchOptions = {},
+  ): Promise<ScriptSearchMatch[]> {
+    const client = await this.#session.getClient();
+    const {result} = await client.Debugger.searchInContent({
+      scriptId: script.scriptId,
+      query,
+      caseSensitive: options.caseSensitive ?? false,
+      isRegex: options.isRegex ?? false,
+    });
+    // Matches are relative to the script; inline scripts start mid-document.
+    return result.map(match => ({
+      lineNumber: match.lineNumber + script.startLine,
+      lineContent: match.lineContent,
+    }));
+  }
+
+  /** Map a generated location to its original source, when a map is available. */
+  async resolve(frame: FrameLocation): Promise<OriginalLocation | undefined> {
+    const script =
+      (frame.scriptId ? this.#scripts.get(frame.scriptId) : undefined) ??
+      (frame.url ? this.findByUrl(frame.url) : undefined);
+    if (!script) {
+      return undefined;
+    }
+    const map = await this.sourceMapFor(script);
+    const relative = toScriptRelative(script, frame.lineNumber, frame.columnNumber);
+    const position = map?.originalPositionFor(relative.lineNumber, relative.columnNumber);
+    if (!map || !position) {
+      return undefined;
+    }
+    return {
+      url: position.source,
+      lineNumber: position.lineNumber,
+      columnNumber: position.columnNumber,
+      functionName: await this.#originalFunctionName(script, map, frame),
+    };
+  }
+
+  /**
+   * Map an original position (zero-based) to generated locations. `source`
+   * may be the map's full source URL or a path suffix such as `src/App.js`.
+   * Only scripts whose maps load are searched.
+   */
+  async findGeneratedLocations(
+    source: string,
+    lineNumber: number,
+    columnNumber = 0,
+  ): Promise<GeneratedLocation[]> {
+    const suffix = `/${source.replace(/^\.?\//, '')}`;
+    const locations: GeneratedLocation[] = [];
+    const seen = new Set<string>();
+    for (const script of this.list()) {
+      const map = await this.sourceMapFor(script);
+      if (!map) {
+        continue;
+      }
+      for (const candidate of map.sources) {
+        if (candidate !== source && !candidate.endsWith(suffix)) {
+          continue;
+        }
+        const position = map.generatedPositionFor(candidate, lineNumber, columnNumber);
+        const key = `${script.url || script.scriptId}:${position?.lineNumber}:${position?.columnNumber}`;
+        if (position && !seen.has(key)) {
+          seen.add(key);
+          // Inline <script> maps are relative to the script, not the document.
+          locations.push({
+            script,
+            source: candidate,
+            lineNumber: position.lineNumber + script.startLine,
+            columnNumber:
+              position.lineNumber === 0
+                ? position.columnNumber + script.startColumn
+                : position.columnNumber,
+          });
+        }
+      }
+    }
+    return locations;
+  }
+
+  async #attach(client: CDP.Client): Promise<void> {
+    if (this.#client !== client) {
+      // Script ids do not survive a new connection.
+      this.#client = client;
+      this.#reset();
+      client.on('Debugger.scriptParsed', params => {
+        this.#recordScript(params as ScriptParsedEvent);
+      });
+      client.on('Runtime.executionContextsCleared', () => this.#reset());
+    }
+    await client.Debugger.enable({});
+    // Only collect scripts; DebuggerManager lifts this once breakpoints are set.
+    await client.Debugger.setSkipAllPauses({skip: true});
+  }
+
+  /**
+   * Forget scripts and their maps. A redeployed bundle usually keeps its URL,
+   * so maps (and failed loads) cached by URL would otherwise go stale.
+   */
+  #reset(): void {
+    this.#scripts.clear();
+    this.#sources.clear();
+    this.#maps.clear();
+    this.#mapErrors.clear();
+  }
+
+  #recordScript(event: ScriptParsedEvent): void {
+    this.#scripts.set(event.scriptId, {
+      scriptId: event.scriptId,
+      url: event.url,
+      sourceMapURL: event.sourceMapURL || undefined,
+      startLine: event.startLine,
+      startColumn: event.startColumn,
+      endLine: event.endLine,
+      endColumn: event.endColumn,
+      length: event.length,
+      hash: event.hash,
+      executionContextId: event.executionContextId,
+      isModule: event.isModule,
+      parsedAt: new Date(),
+    });
+  }
+
+  #mapKey(script: ScriptInfo): string | undefined {
+    if (script.sourceMapURL) {
+      return script.sourceMapURL.startsWith('data:')
+        ? `inline:${script.scriptId}`
+        : resolveSourceUrl(script.sourceMapURL, script.url || undefined);
+    }
+    return this.#sourceMapsDir && script.url ? `dir:${script.url}` : undefined;
+  }
+
+  async #loadSourceMap(script: ScriptInfo, fromPage: boolean): Promise<SourceMap | undefined> {
+    const declared = script.sourceMapURL;
+    if (declared?.startsWith('data:')) {
+      return SourceMap.parse(decodeDataUrl(declared), script.url || undefined);
+    }
+    const mapUrl = declared ? resolveSourceUrl(declared, script.url || undefined) : undefined;
+
+    if (this.#sourceMapsDir) {
+      const candidates = [
+        mapUrl ? basename(new URL(mapUrl, 'file:///').pathname) : undefined,
+        script.url ? `${basename(new URL(script.url, 'file:///').pathname)}.map` : undefined,
+      ].filter((name): name is string => !!name);
+      for (const name of candidates) {
+        const text = await readFile(join(this.#sourceMapsDir, name), 'utf8').catch(() => undefined);
+        if (text !== undefined) {
+          return SourceMap.parse(text, mapUrl ?? script.url);
+        }
+      }
+    }
+    if (!mapUrl || !fromPage) {
+      return undefined;
+    }
+    return SourceMap.parse(await this.#fetchFromPage(mapUrl), mapUrl);
+  }
+
+  async #fetchFromPage(url: string): Promise<string> {
+    // XHR from the page reaches file:// app bundles that the host cannot.
+    const result = await this.#session.evaluate(
+      `(function () {
+        return new Promise(function (resolve) {
+          var xhr = new XMLHttpRequest();
+          xhr.open('GET', ${JSON.stringify(url)}, true);
+          xhr.timeout = ${SOURCE_MAP_FETCH_TIMEOUT_MS};
+          xhr.onload = function () {
+            resolve(JSON.stringify({status: xhr.status, text: xhr.responseText}));
+          };
+          xhr.onerror = function () {
+            resolve(JSON.stringify({status: -1, text: ''}));
+          };
+          xhr.ontimeout = function () {
+            resolve(JSON.stringify({status: -2, text: ''}));
+          };
+          xhr.send();
+        });
+      })()`,
+      {awaitPromise: true},
+    );
+    const response = JSON.parse(String(result.value)) as {status: number; text: string};
+    if (response.status === -2) {
+      throw new Error(`Timed out loading source map ${url} after ${SOURCE_MAP_FETCH_TIMEOUT_MS} ms.`);
+    }
+    // file:// loads report status 0 on success.
+    if (response.status === -1 || response.status >= 400 || !response.text) {
+      throw new Error(`Could not load source map ${url} (status ${response.status}).`);
+    }
+    return response.text;
+  }
+
+  /**
+   * Stack frames point at the call site, so the mapped name there is the
+   * callee. Find the enclosing function's declaration in the generated source
+   * instead and map that identifier.
+   */
+  async #originalFunctionName(
+    script: ScriptInfo,
+    map: SourceMap,
+    frame: FrameLocation,
+  ): Promise<string | undefined> {
+    const generated = frame.functionName;
+    if (!generated) {
+      return undefined;
+    }
+    const source = await this.getSource(script.scriptId);
+    if (!source) {
+      return generated;
+    }
+    const relative = toScriptRelative(script, frame.lineNumber, frame.columnNumber);
+    const offset = offsetOf(source, relative.lineNumber, relative.columnNumber);
+    const start = Math.max(0, offset - FUNCTION_NAME_SEARCH_CHARS);
+    const window = source.slice(start, offset);
+    const escaped = escapeRegex(generated);
+    const declaration = new RegExp(
+      `(?:function\\s*\\*?\\s*(${escaped})\\s*\\(|\\b(${escaped})\\s*[:=]\\s*(?:async\\s+)?(?:function\\b|\\([^)]*\\)\\s*=>|\\w+\\s*=>)|\\b(${escaped})\\s*\\([^)]*\\)\\s*\\{)`,
+      'g',
+    );
+    let index = -1;
+    for (const match of window.matchAll(declaration)) {
+      const group = match[1] ?? match[2] ?? match[3] ?? '';
+      index = start + match.index + match[0].indexOf(group);
+    }
+    if (index === -1) {
+      return generated;
+    }
+    const {lineNumber, columnNumber} = positionOf(source, index);
+    const position = map.originalPositionFor(lineNumber, columnNumber);
+    return position?.name ?? generated;
+  }
+}
+
+function toScriptRelative(
+  script: ScriptInfo,
+  lineNumber: number,
+  columnNumber: number,
+): {lineNumber: number; columnNumber: number} {
+  const line = lineNumber - script.startLine;
+  return {
+    lineNumber: line,
+    columnNumber: line === 0 ? columnNumber - script.startColumn : columnNumber,
+  };
+}
+
+function decodeDataUrl(url: string): string {
+  const comma = url.indexOf(',');
+  const header = url.slice(0, comma);
+  const data = url.slice(comma + 1);
+  return header.endsWith(';base64')
+    ? Buffer.from(data, 'base64').toString('utf8')
+    : decodeURIComponent(data);
+}
+
+function offsetOf(source: string, lineNumber: number, columnNumber: number): number {
+  let offset = 0;
+  for (let line = 0; line < lineNumber; line++) {
+    const next = source.indexOf('\n', offset);
+    if (next === -1) {
+      return source.length;
+    }
+    offset = next + 1;
+  }
+  return Math.min(source.length, offset + columnNumber);
+}
+
+function positionOf(source: string, offset: number): {lineNumber: number; columnNumber: number} {
+  let lineNumber = 0;
+  let lineStart = 0;
+  for (let index = source.indexOf('\n'); index !== -1 && index < offset; index = source.indexOf('\n', index + 1)) {
+    lineNumber++;
+    lineStart = index + 1;
+  }
+  return {lineNumber, columnNumber: offset - lineStart};
+}
+
+/** `at fn (original.ts:12:5)`, noting the generated location when it was mapped. */
+export function formatFrame(frame: FrameLocation, original?: OriginalLocation): string {
+  const generated = `${frame.url || '<anonymous>'}:${frame.lineNumber + 1}:${frame.columnNumber + 1}`;
+  if (!original) {
+    return `at ${frame.functionName || '<anonymous>'} (${generated})`;
+  }
+  const location = `${original.url}:${original.lineNumber + 1}:${original.columnNumber + 1}`;
+  return `at ${original.functionName || frame.functionName || '<anonymous>'} (${location}) [${generated}]`;
+}
@@ -0,0 +1,45 @@
+export interface RegexLiteral {
+  source: string;
+  flags: string;
+}
+
+/**
+ * Split `/source/flags` into its parts; undefined when `pattern` is plain
+ * text. Only real flags count, so paths such as `/api/login` stay text.
+ */
+export function parseRegexLiteral(pattern: string): RegexLiteral | undefined {
+  const end = pattern.lastIndexOf('/');
+  const flags = pattern.slice(end + 1);
+  if (!pattern.startsWith('/') || end < 2 || !isRegexFlags(flags)) {
+    return undefined;
+  }
+  return {source: pattern.slice(1, end), flags};
+}
+
+function isRegexFlags(flags: string): boolean {
+  return /^[dgimsuy]*$/.test(flags) && new Set(flags).size === flags.length;
+}
+
+export function compileRegexLiteral({source, flags}: RegexLiteral, label = 'regex'): RegExp {
+  try {
+    // Drop g/y so repeated test() calls do not carry lastIndex between inputs.
+    return new RegExp(source, flags.replace(/[gy]/g, ''));
+  } catch (error) {
+    throw new Error(
+      `Invalid ${label} /${source}/${flags}: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+}
+
+export function escapeRegex(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/** Treat `/regex/flags` as a regex and anything else as case-insensitive text. */
+export function compileSearchPattern(pattern: string): RegExp {
+  const literal = parseRegexLiteral(pattern);
+  if (!literal) {
+    return new RegExp(escapeRegex(pattern), 'i');
+  }
+  return compileRegexLiteral(literal, 'search regex');
+}
@@ -0,0 +1,187 @@
+import {PageSession, type PageSessionOptions} from './pageSession.js';
+import type {DevtoolsHost, EndpointResolver} from './targetDiscovery.js';
+
+export const DEFAULT_TARGET_NAME = 'default';
+
+export interface AttachTargetOptions {
+  name: string;
+  endpoint: string | EndpointResolver;
+  /** Human-readable summary of how the page target is located. */
+  description: string;
+  devtoolsHost?: DevtoolsHost;
+  /** Make the new target active (always true for the first target). */
+  select?: boolean;
+  sessionOptions?: PageSessionOptions;
+}
+
+export interface TargetInfo {
+  name: string;
+  description: string;
+  devtoolsHost?: DevtoolsHost;
+  session: PageSession;
+  active: boolean;
+}
+
+export type SessionCreatedListener = (session: PageSession, name: string) => void;
+
+interface RegisteredTarget {
+  name: string;
+  description: string;
+  devtoolsHost?: DevtoolsHost;
+  session: PageSession;
+}
+
+/**
+ * Holds every attached page target by name. Tools resolve their session
+ * through the registry so an optional `target` argument can redirect them,
+ * falling back to the active target.
+ */
+export class SessionRegistry {
+  #targets = new Map<string, RegisteredTarget>();
+  /** Names of targets still connecting, so concurrent attaches cannot share one. */
+  #attaching = new Set<string>();
+  #active?: string;
+  #createdListeners = new Set<SessionCreatedListener>();
+  #sessionDefaults: PageSessionOptions;
+
+  /** @param sessionDefaults Options applied to every attached session. */
+  constructor(sessionDefaults: PageSessionOptions = {}) {
+    this.#sessionDefaults = sessionDefaults;
+  }
+
+  get activeName(): string | undefined {
+    return this.#active;
+  }
+
+  /**
+   * Called for each new session before it connects, so managers can hook
+   * the first connection (see PageSession.onClientOpened).
+   */
+  onSessionCreated(listener: SessionCreatedListener): () => void {
+    this.#createdListeners.add(listener);
+    return () => {
+      this.#createdListeners.delete(listener);
+    };
+  }
+
+  async attach(options: AttachTargetOptions): Promise<PageSession> {
+    const {name} = options;
+    if (this.#targets.has(name)) {
+      throw new Error(`Target "${name}" is already attached.`);
+    }
+    if (this.#attaching.has(name)) {
+      throw new Error(`Target "${name}" is already being attached.`);
+    }
+    this.#attaching.add(name);
+    const session = new PageSession(options.endpoint, {
+      ...this.#sessionDefaults,
+      ...options.sessionOptions,
+    });
+    try {
+      for (const listener of this.#createdListeners) {
+        listener(session, name);
+      }
+      await session.connect();
+    } catch (error) {
+      // Close the half-open session so the hooks installed above stop firing.
+      await session.dispose();
+      throw error;
+    } finally {
+      this.#attaching.delete(name);
+    }
+    this.#targets.set(name, {
+      name,
+      description: options.description,
+      devtoolsHost: options.devtoolsHost,
+      session,
+    });
+    if (options.select || !this.#active) {
+      this.#active = name;
+    }
+    return session;
+  }
+
+  async detach(name: string): Promise<void> {
+    const target = this.#require(name);
+    this.#targets.delete(name);
+    if (this.#active === name) {
+      this.#active = this.#targets.keys().next().value;
+    }
+    await target.session.dispose();
+  }
+
+  select(name: string): void {
+    this.#require(name);
+    this.#active = name;
+  }
+
+  /** Resolve a session by name, defaulting to the active target. */
+  get(name?: string): PageSession {
+    const resolved = name ?? this.#active;
+    if (!resolved) {
+      throw new Error('No target is attached. Use target_attach first.');
+    }
+    return this.#require(resolved).session;
+  }
+
+  info(name?: string): TargetInfo {
+    const resolved = name ?? this.#active;
+    if (!resolved) {
+      throw new Error('No target is attached. Use target_attach first.');
+    }
+    const target = this.#require(resolved);
+    return {...target, active: target.name === this.#active};
+  }
+
+  nameOf(session: PageSession): string | undefined {
+    for (const target of this.#targets.values()) {
+      if (target.session === session) {
+        return target.name;
+      }
+    }
+    return undefined;
+  }
+
+  list(): TargetInfo[] {
+    return Array.from(this.#targets.values()).map(target => ({
+      ...target,
+      active: target.name === this.#active,
+    }));
+  }
+
+  async disposeAll(): Promise<void> {
+    const sessions = Array.from(this.#targets.values()).map(target => target.session);
+    this.#targets.clear();
+    this.#active = undefined;
+    await Promise.all(sessions.map(session => session.dispose()));
+  }
+
+  #require(name: string): RegisteredTarget {
+    const target = this.#targets.get(name);
+    if (!target) {
+      const known = Array.from(this.#targets.keys());
+      throw new Error(
+        `Unknown target "${name}". Attached targets: ${known.length ? known.join(', ') : 'none'}.`,
+      );
+    }
+    return target;
+  }
+}
+
+/**
+ * Lazily create one manager per session so each target keeps its own state
+ * (network records, overlay decorations, console subscriptions).
+ */
+export function perSession<T>(
+  factory: (session: PageSession) => T,
+): (session: PageSession) => T {
+  const instances = new WeakMap<PageSession, T>();
+  return session => {
+    let instance = instances.get(session);
+    if (!instance) {
+      instance = factory(session);
+      instances.set(session, instance);
+    }
+    return instance;
+  };
+}
@@ -0,0 +1,218 @@
+const BASE64_ALPHABET =
+  'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+const BASE64_VALUES = new Map(
+  Array.from(BASE64_ALPHABET).map((char, index) => [char, index]),
+);
+
+export interface GeneratedPosition {
+  /** Zero-based. */
+  lineNumber: number;
+  columnNumber: number;
+}
+
+export interface OriginalPosition {
+  source: string;
+  /** Zero-based, like CDP locations. */
+  lineNumber: number;
+  columnNumber: number;
+  name?: string;
+}
+
+/** [generatedColumn, sourceIndex, originalLine, originalColumn, nameIndex?] */
+type Segment = [number, number, number, number, number?];
+
+interface RawSourceMap {
+  version?: number;
+  sources?: Array<string | null>;
+  sourceRoot?: string;
+  names?: string[];
+  mappings?: string;
+  sourcesContent?: Array<string | null>;
+  sections?: unknown[];
+}
+
+/**
+ * Minimal source map v3 reader: decodes the VLQ mappings once and answers
+ * generated → original lookups. Index maps (`sections`) are not supported.
+ */
+export class SourceMap {
+  readonly sources: string[];
+  readonly #names: string[];
+  readonly #lines: Segment[][];
+  readonly #sourcesContent: Array<string | null>;
+  #bySource?: Map<number, Array<[number, number, number, number]>>;
+
+  private constructor(raw: RawSourceMap, mapUrl?: string) {
+    const root = raw.sourceRoot ?? '';
+    this.sources = (raw.sources ?? []).map(source => {
+      const path = source ?? '';
+      const withRoot = root && !isAbsolute(path) ? `${root.replace(/\/?$/, '/')}${path}` : path;
+      return resolveSourceUrl(withRoot, mapUrl);
+    });
+    this.#names = raw.names ?? [];
+    this.#sourcesContent = raw.sourcesContent ?? [];
+    this.#lines = decodeMappings(raw.mappings ?? '');
+  }
+
+  static parse(text: string, mapUrl?: string): SourceMap {
+    // Maps may start with an XSSI guard line.
+    const json = text.replace(/^\)\]\}'[^\n]*\n/, '');
+    const raw = JSON.parse(json) as RawSourceMap;
+    if (raw.sections) {
+      throw new Error('Indexed source maps (sections) are not supported.');
+    }
+    if (typeof raw.mappings !== 'string') {
+      throw new Error('Source map has no mappings.');
+    }
+    return new SourceMap(raw, mapUrl);
+  }
+
+  /** Look up the original position for a zero-based generated location. */
+  originalPositionFor(lineNumber: number, columnNumber: number): OriginalPosition | undefined {
+    const segments = this.#lines[lineNumber];
+    if (!segments?.length) {
+      return undefined;
+    }
+    let low = 0;
+    let high = segments.length - 1;
+    let match: Segment | undefined;
+    while (low <= high) {
+      const mid = (low + high) >> 1;
+      const segment = segments[mid]!;
+      if (segment[0] <= columnNumber) {
+        match = segment;
+        low = mid + 1;
+      } else {
+        high = mid - 1;
+      }
+    }
+    if (!match) {
+      return undefined;
+    }
+    return {
+      source: this.sources[match[1]] ?? '',
+      lineNumber: match[2],
+      columnNumber: match[3],
+      name: match[4] !== undefined ? this.#names[match[4]] : undefined,
+    };
+  }
+
+  /**
+   * Find where an original location ended up in the generated code: the
+   * first mapping on that original line at or after the column, else the
+   * line's first mapping.
+   */
+  generatedPositionFor(
+    source: string,
+    lineNumber: number,
+    columnNumber = 0,
+  ): GeneratedPosition | undefined {
+    const sourceIndex = this.sources.indexOf(source);
+    if (sourceIndex === -1) {
+      return undefined;
+    }
+    const onLine = (this.#reverseIndex().get(sourceIndex) ?? []).filter(
+      ([line]) => line === lineNumber,
+    );
+    const match = onLine.find(([, column]) => column >= columnNumber) ?? onLine[0];
+    return match ? {lineNumber: match[2], columnNumber: match[3]} : undefined;
+  }
+
+  /** Embedded original source text, when the map carries sourcesContent. */
+  sourceContent(source: string): string | undefined {
+    const index = this.sources.indexOf(source);
+    return index === -1 ? undefined : this.#sourcesContent[index] ?? undefined;
+  }
+
+  /** sourceIndex → [originalLine, originalColumn, generatedLine, generatedColumn], sorted. */
+  #reverseIndex(): Map<number, Array<[number, number, number, number]>> {
+    if (!this.#bySource) {
+      this.#bySource = new Map();
+      this.#lines.forEach((segments, generatedLine) => {
+        for (const segment of segments) {
+          let list = this.#bySource!.get(segment[1]);
+          if (!list) {
+            list = [];
+            this.#bySource!.set(segment[1], list);
+          }
+          list.push([segment[2], segment[3], generatedLine, segment[0]]);
+        }
+      });
+      for (const list of this.#bySource.values()) {
+        list.sort((a, b) => a[0] - b[0] || a[1] - b[1] || a[2] - b[2] || a[3] - b[3]);
+      }
+    }
+    return this.#bySource;
+  }
+}
+
+function decodeMappings(mappings: string): Segment[][] {
+  const lines: Segment[][] = [];
+  let sourceIndex = 0;
+  let originalLine = 0;
+  let originalColumn = 0;
+  let nameIndex = 0;
+  for (const line of mappings.split(';')) {
+    const segments: Segment[] = [];
+    let generatedColumn = 0;
+    for (const encoded of line.split(',')) {
+      if (!encoded) {
+        continue;
+      }
+      const values = decodeVlq(encoded);
+      generatedColumn += values[0] ?? 0;
+      if (values.length < 4) {
+        // Unmapped segment: nothing to translate back to.
+        continue;
+      }
+      sourceIndex += values[1]!;
+      originalLine += values[2]!;
+      originalColumn += values[3]!;
+      let segment: Segment = [generatedColumn, sourceIndex, originalLine, originalColumn];
+      if (values.length >= 5) {
+        nameIndex += values[4]!;
+        segment = [generatedColumn, sourceIndex, originalLine, originalColumn, nameIndex];
+      }
+      segments.push(segment);
+    }
+    segments.sort((a, b) => a[0] - b[0]);
+    lines.push(segments);
+  }
+  return lines;
+}
+
+function decodeVlq(encoded: string): number[] {
+  const values: number[] = [];
+  let value = 0;
+  let shift = 0;
+  for (const char of encoded) {
+    const digit = BASE64_VALUES.get(char);
+    if (digit === undefined) {
+      throw new Error(`Invalid base64 VLQ character "${char}" in source map.`);
+    }
+    value += (digit & 31) << shift;
+    if (digit & 32) {
+      shift += 5;
+      continue;
+    }
+    values.push(value & 1 ? -(value >>> 1) : value >>> 1);
+    value = 0;
+    shift = 0;
+  }
+  return values;
+}
+
+function isAbsolute(url: string): boolean {
+  return /^[a-z][a-z0-9+.-]*:/i.test(url) || url.startsWith('/');
+}
+
+export function resolveSourceUrl(url: string, base?: string): string {
+  if (!base) {
+    return url;
+  }
+  try {
+    return new URL(url, base).href;
+  } catch {
+    return url;
+  }
+}
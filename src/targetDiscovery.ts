@@ -0,0 +1,161 @@
+import CDP from 'chrome-remote-interface';
+
+import {compileRegexLiteral, parseRegexLiteral} from './searchPattern.js';
+
+export interface DevtoolsHost {
+  host: string;
+  port: number;
+  secure?: boolean;
+}
+
+export interface TargetMatcher {
+  /** Substring (case-insensitive) or `/regex/flags` matched against the title. */
+  title?: string;
+  /** Substring (case-insensitive) or `/regex/flags` matched against the URL. */
+  url?: string;
+}
+
+export interface PageTarget {
+  id: string;
+  type: string;
+  title: string;
+  url: string;
+  webSocketDebuggerUrl?: string;
+}
+
+export type EndpointResolver = () => Promise<string>;
+
+const DEFAULT_DEVTOOLS_PORT = 9222;
+
+export function parseDevtoolsHost(value: string): DevtoolsHost {
+  const trimmed = value.trim();
+  if (!trimmed) {
+    throw new Error('DevTools host must not be empty.');
+  }
+  const withScheme = /^[a-z]+:\/\//i.test(trimmed) ? trimmed : `http://${trimmed}`;
+  let url: URL;
+  try {
+    url = new URL(withScheme);
+  } catch {
+    throw new Error(`Invalid DevTools host "${value}". Use host:port.`);
+  }
+  const secure = url.protocol === 'https:' || url.protocol === 'wss:';
+  const port = url.port ? Number(url.port) : DEFAULT_DEVTOOLS_PORT;
+  return {host: url.hostname, port, secure};
+}
+
+/** Check that `endpoint` is a ws:// or wss:// URL and return it unchanged. */
+export function assertPageEndpoint(endpoint: string): string {
+  let url: URL;
+  try {
+    url = new URL(endpoint);
+  } catch {
+    throw new Error(`Invalid endpoint URL "${endpoint}".`);
+  }
+  if (url.protocol !== 'ws:' && url.protocol !== 'wss:') {
+    throw new Error('WebSocket endpoint must use ws:// or wss://');
+  }
+  return endpoint;
+}
+
+/** Derive the HTTP discovery host from a page WebSocket URL. */
+export function devtoolsHostFromEndpoint(endpoint: string): DevtoolsHost | undefined {
+  try {
+    const url = new URL(endpoint);
+    return {
+      host: url.hostname,
+      port: url.port ? Number(url.port) : DEFAULT_DEVTOOLS_PORT,
+      secure: url.protocol === 'wss:',
+    };
+  } catch {
+    return undefined;
+  }
+}
+
+export function formatDevtoolsHost(host: DevtoolsHost): string {
+  return `${host.host}:${host.port}`;
+}
+
+export async function listPageTargets(host: DevtoolsHost): Promise<PageTarget[]> {
+  const targets = await CDP.List({
+    host: host.host,
+    port: host.port,
+    secure: host.secure,
+  });
+  return targets
+    .filter(target => target.type === 'page')
+    .map(target => ({
+      id: target.id,
+      type: target.type,
+      title: target.title ?? '',
+      url: target.url ?? '',
+      webSocketDebuggerUrl: target.webSocketDebuggerUrl || undefined,
+    }));
+}
+
+export function matchesTarget(target: PageTarget, matcher: TargetMatcher): boolean {
+  if (matcher.title && !matchesPattern(target.title, matcher.title)) {
+    return false;
+  }
+  if (matcher.url && !matchesPattern(target.url, matcher.url)) {
+    return false;
+  }
+  return true;
+}
+
+export async function resolvePageTarget(
+  host: DevtoolsHost,
+  matcher: TargetMatcher,
+): Promise<PageTarget> {
+  const targets = await listPageTargets(host);
+  const candidates = targets.filter(target => matchesTarget(target, matcher));
+  const attachable = candidates.find(target => target.webSocketDebuggerUrl);
+  if (attachable) {
+    return attachable;
+  }
+  if (candidates.length) {
+    throw new Error(
+      `Page target "${candidates[0]!.title || candidates[0]!.url}" has no WebSocket URL; another debugger may already be attached.`,
+    );
+  }
+  const available = targets.length
+    ? targets.map(target => `  ${target.title || '(untitled)'} – ${target.url}`).join('\n')
+    : '  (none)';
+  throw new Error(
+    `No page target on ${formatDevtoolsHost(host)} matches ${describeMatcher(matcher)}.\nAvailable pages:\n${available}`,
+  );
+}
+
+/**
+ * Build a resolver that queries /json/list each time it is called, so the
+ * session picks up the new page ID after an app relaunch.
+ */
+export function createEndpointResolver(
+  host: DevtoolsHost,
+  matcher: TargetMatcher,
+): EndpointResolver {
+  return async () => {
+    const target = await resolvePageTarget(host, matcher);
+    return target.webSocketDebuggerUrl!;
+  };
+}
+
+export function describeMatcher(matcher: TargetMatcher): string {
+  const parts = [
+    matcher.title ? `title ${matcher.title}` : undefined,
+    matcher.url ? `url ${matcher.url}` : undefined,
+  ].filter(Boolean);
+  return parts.length ? parts.join(', ') : 'any page';
+}
+
+function matchesPattern(value: string, pattern: string): boolean {
+  const literal = parseRegexLiteral(pattern);
+  if (literal) {
+    try {
+      return compileRegexLiteral(literal).test(value);
+    } catch {
+      // An invalid regex is matched as plain text instead.
+    }
+  }
+  return value.toLowerCase().includes(pattern.toLowerCase());
+}
@@ -2,10 +2,25 @@ import {z} from 'zod';
 
 import type {McpServer} from '@modelcontextprotocol/sdk/server/mcp.js';
 
-import {ConsoleStreamManager, type ConsoleStreamOptions} from '../consoleStreamManager.js';
-import type {PageSession} from '../pageSession.js';
+import {
+  ConsoleStreamManager,
+  DEFAULT_SUBSCRIPTION_NAME,
+  type ConsoleStreamOptions,
+  type ConsoleSubscriptionInfo,
+} from '../consoleStreamManager.js';
+import {perSession, type SessionRegistry} from '../sessionRegistry.js';
+import {targetArgShape} from './targetTools.js';
+
+const subscriptionNameSchema = z
+  .string()
+  .min(1)
+  .regex(/^[\w.-]+$/, 'Use letters, digits, ".", "-" or "_".');
 
 const subscribeShape = {
+  ...targetArgShape,
+  name: subscriptionNameSchema
+    .default(DEFAULT_SUBSCRIPTION_NAME)
+    .describe('Subscription name; subscribing again with the same name replaces it. Others keep streaming.'),
   levels: z
     .array(z.enum(['log', 'debug', 'info', 'warn', 'error']))
     .optional()
@@ -18,13 +33,48 @@ const subscribeShape = {
     .boolean()
     .default(false)
     .describe('Include stack trace (first few frames) in each streamed message.'),
+  include: z
+    .array(z.string().min(1))
+    .optional()
+    .describe('Only stream messages matching one of these (text, or /regex/flags).'),
+  exclude: z
+    .array(z.string().min(1))
+    .optional()
+    .describe('Drop messages matching any of these (text, or /regex/flags).'),
+  urls: z
+    .array(z.string().min(1))
+    .optional()
+    .describe('Only stream messages logged from a script URL matching one of these.'),
+  maxPerSecond: z
+    .number()
+    .int()
+    .min(1)
+    .optional()
+    .describe('Stream at most this many messages per second; the rest are dropped and counted.'),
+  collapseRepeats: z
+    .boolean()
+    .default(true)
+    .describe('Collapse identical consecutive messages into "(repeated N times)".'),
+} as const;
+
+const unsubscribeShape = {
+  ...targetArgShape,
+  name: subscriptionNameSchema
+    .optional()
+    .describe('Subscription to remove. Omit to remove every subscription on the target.'),
+} as const;
+
+const targetOnlyShape = {
+  ...targetArgShape,
 } as const;
 
 export function registerConsoleStreamTools(
   server: McpServer,
-  session: PageSession,
+  sessions: SessionRegistry,
 ): void {
-  const manager = new ConsoleStreamManager(session, server);
+  const managerFor = perSession(
+    session => new ConsoleStreamManager(session, server, sessions.nameOf(session)),
+  );
 
   server.registerTool(
     'console_subscribe',
@@ -32,13 +82,35 @@ export function registerConsoleStreamTools(
       description: 'Begin streaming console output in real time.',
       inputSchema: subscribeShape,
     },
-    async (args: ConsoleStreamOptions = {}): Promise<any> => {
-      await manager.subscribe(args);
+    async ({
+      target,
+      name = DEFAULT_SUBSCRIPTION_NAME,
+      ...args
+    }: ConsoleStreamOptions & {target?: string; name?: string} = {}): Promise<any> => {
+      let replaced = false;
+      try {
+        const manager = managerFor(sessions.get(target));
+        replaced = manager.has(name);
+        await manager.subscribe(args, name);
+      } catch (error) {
+        return {
+          isError: true,
+          content: [
+            {
+              type: 'text',
+              text:
+                error instanceof Error
+                  ? `Failed to subscribe: ${error.message}`
+                  : 'Failed to subscribe.',
+            },
+          ],
+        };
+      }
       return {
         content: [
           {
             type: 'text',
-            text: `Console streaming enabled (${(args.levels ?? ['log','debug','info','warn','error']).join(', ')})`,
+            text: `Console streaming ${replaced ? 'updated' : 'enabled'} for "${name}" (${(args.levels ?? ['log','debug','info','warn','error']).join(', ')})`,
           },
         ],
       };
@@ -48,25 +120,34 @@ export function registerConsoleStreamTools(
   server.registerTool(
     'console_unsubscribe',
     {
-      description: 'Stop streaming console output.',
+      description: 'Stop one named console subscription, or all of them.',
+      inputSchema: unsubscribeShape,
     },
-    async (): Promise<any> => {
-      if (!manager.active) {
+    async ({target, name}: {target?: string; name?: string}): Promise<any> => {
+      const manager = managerFor(sessions.get(target));
+      if (name !== undefined ? !manager.has(name) : !manager.active) {
         return {
           content: [
             {
               type: 'text',
-              text: 'Console streaming was not active.',
+              text:
+                name !== undefined
+                  ? `No console subscription named "${name}".`
+                  : 'Console streaming was not active.',
             },
           ],
         };
       }
-      await manager.unsubscribe();
+      await manager.unsubscribe(name);
+      const remaining = manager.list().map(subscription => subscription.name);
       return {
         content: [
           {
             type: 'text',
-            text: 'Console streaming disabled.',
+            text:
+              name !== undefined
+                ? `Removed console subscription "${name}".${remaining.length ? ` Still active: ${remaining.join(', ')}.` : ' Console streaming disabled.'}`
+                : 'Console streaming disabled.',
           },
         ],
       };
@@ -77,8 +158,10 @@ export function registerConsoleStreamTools(
     'console_stream_status',
     {
       description: 'Report current console streaming status.',
+      inputSchema: targetOnlyShape,
     },
-    async (): Promise<any> => {
+    async ({target}: {target?: string}): Promise<any> => {
+      const manager = managerFor(sessions.get(target));
       if (!manager.active) {
         return {
           content: [
@@ -89,15 +172,33 @@ export function registerConsoleStreamTools(
           ],
         };
       }
-      const opts = manager.options ?? {};
+      const subscriptions = manager.list();
       return {
         content: [
           {
             type: 'text',
-            text: `Console streaming active. Levels: ${(opts.levels ?? ['log','debug','info','warn','error']).join(', ')}; includeExceptions=${opts.includeExceptions ?? true}; includeStack=${opts.includeStack ?? false}`,
+            text: [
+              `Console streaming active with ${subscriptions.length} subscription(s).`,
+              ...subscriptions.map(formatSubscription),
+            ].join('\n\n'),
           },
         ],
       };
     },
   );
 }
+
+function formatSubscription({name, options: opts, stats}: ConsoleSubscriptionInfo): string {
+  const filters = [
+    opts.include?.length ? `include=${opts.include.join(', ')}` : undefined,
+    opts.exclude?.length ? `exclude=${opts.exclude.join(', ')}` : undefined,
+    opts.urls?.length ? `urls=${opts.urls.join(', ')}` : undefined,
+    opts.maxPerSecond ? `maxPerSecond=${opts.maxPerSecond}` : undefined,
+    `collapseRepeats=${opts.collapseRepeats ?? true}`,
+  ].filter(Boolean);
+  return [
+    `[${name}] Levels: ${(opts.levels ?? ['log','debug','info','warn','error']).join(', ')}; includeExceptions=${opts.includeExceptions ?? true}; includeStack=${opts.includeStack ?? false}`,
+    `  Filters: ${filters.join('; ')}`,
+    `  Sent ${stats.sent}, filtered ${stats.filtered}, dropped ${stats.dropped} (rate limit), merged ${stats.merged} (repeats).`,
+  ].join('\n');
+}
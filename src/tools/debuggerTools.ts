@@ -0,0 +1,613 @@
+import {z} from 'zod';
+
+import type {McpServer} from '@modelcontextprotocol/sdk/server/mcp.js';
+
+import {
+  LOGPOINT_LEVELS,
+  PAUSE_ON_EXCEPTIONS_STATES,
+  type BreakpointInfo,
+  type BreakpointSpec,
+  type PausedState,
+} from '../debuggerManager.js';
+import type {PageSession} from '../pageSession.js';
+import {formatFrame} from '../scriptCatalog.js';
+import {escapeRegex, parseRegexLiteral} from '../searchPattern.js';
+import type {SessionRegistry} from '../sessionRegistry.js';
+import {formatProperty} from './runtimeTools.js';
+import {targetArgShape} from './targetTools.js';
+
+const setBreakpointShape = {
+  ...targetArgShape,
+  url: z
+    .string()
+    .min(1)
+    .optional()
+    .describe('Script URL to break in, or /regex/ matching script URLs. Survives reloads.'),
+  source: z
+    .string()
+    .min(1)
+    .optional()
+    .describe('Original source file from a source map (full URL or a path suffix such as src/views/Home.js).'),
+  line: z.number().int().min(1).describe('1-based line number (in the script, or in the original source).'),
+  column: z.number().int().min(1).optional().describe('1-based column number.'),
+  condition: z
+    .string()
+    .min(1)
+    .optional()
+    .describe('Only pause when this expression is truthy.'),
+} as const;
+
+const addLogpointShape = {
+  ...targetArgShape,
+  url: z
+    .string()
+    .min(1)
+    .optional()
+    .describe(
+      'Substring of the script URL (unlike debugger_set_breakpoint, which needs the exact URL), or /regex/. Matching scripts keep the logpoint across reloads.',
+    ),
+  source: z
+    .string()
+    .min(1)
+    .optional()
+    .describe('Original source file from a source map (full URL or a path suffix).'),
+  line: z.number().int().min(1).describe('1-based line number.'),
+  column: z.number().int().min(1).optional().describe('1-based column number.'),
+  template: z
+    .string()
+    .min(1)
+    .describe('Message with {expression} placeholders evaluated in the frame, e.g. "focus {el.id} key {e.keyCode}".'),
+  condition: z
+    .string()
+    .min(1)
+    .optional()
+    .describe('Only log when this expression is truthy.'),
+  level: z.enum(LOGPOINT_LEVELS).default('log').describe('Console method used for the output.'),
+} as const;
+
+const removeBreakpointShape = {
+  ...targetArgShape,
+  breakpointId: z.string().min(1).describe('Id from debugger_set_breakpoint or debugger_list_breakpoints.'),
+} as const;
+
+const pauseOnExceptionsShape = {
+  ...targetArgShape,
+  state: z
+    .enum(PAUSE_ON_EXCEPTIONS_STATES)
+    .describe('none, uncaught (exceptions nothing catches), or all.'),
+} as const;
+
+const callStackShape = {
+  ...targetArgShape,
+  maxFrames: z.number().int().min(1).max(200).default(30),
+  sourceMapped: z
+    .boolean()
+    .default(true)
+    .describe('Show frames at their original source-mapped locations.'),
+} as const;
+
+const scopeVariablesShape = {
+  ...targetArgShape,
+  frameIndex: z.number().int().min(0).default(0).describe('Frame index from debugger_get_call_stack (0 = top).'),
+  includeGlobal: z
+    .boolean()
+    .default(false)
+    .describe('Also list the global scope (usually very large).'),
+  maxProperties: z.number().int().min(1).max(500).default(50).describe('Maximum variables listed per scope.'),
+} as const;
+
+const targetOnlyShape = {
+  ...targetArgShape,
+} as const;
+
+type LogpointLocation = Pick<
+  BreakpointSpec,
+  'url' | 'urlRegex' | 'scriptId' | 'lineNumber' | 'columnNumber'
+>;
+
+const setBreakpointArgsSchema = z.object(setBreakpointShape);
+type SetBreakpointArgs = z.infer<typeof setBreakpointArgsSchema>;
+
+const addLogpointArgsSchema = z.object(addLogpointShape);
+type AddLogpointArgs = z.infer<typeof addLogpointArgsSchema>;
+
+const removeBreakpointArgsSchema = z.object(removeBreakpointShape);
+type RemoveBreakpointArgs = z.infer<typeof removeBreakpointArgsSchema>;
+
+const pauseOnExceptionsArgsSchema = z.object(pauseOnExceptionsShape);
+type PauseOnExceptionsArgs = z.infer<typeof pauseOnExceptionsArgsSchema>;
+
+const callStackArgsSchema = z.object(callStackShape);
+type CallStackArgs = z.infer<typeof callStackArgsSchema>;
+
+const scopeVariablesArgsSchema = z.object(scopeVariablesShape);
+type ScopeVariablesArgs = z.infer<typeof scopeVariablesArgsSchema>;
+
+export function registerDebuggerTools(
+  server: McpServer,
+  sessions: SessionRegistry,
+): void {
+  server.registerTool(
+    'debugger_set_breakpoint',
+    {
+      description:
+        'Set a breakpoint by script URL (or /regex/) and line, or by an original source location through source maps.',
+      inputSchema: setBreakpointShape,
+    },
+    async ({target, url, source, line, column, condition}: SetBreakpointArgs) => {
+      try {
+        const manager = sessions.get(target).debugger;
+        const lineNumber = line - 1;
+        const columnNumber = column !== undefined ? column - 1 : undefined;
+        let breakpoints: BreakpointInfo[];
+        if (url && !source) {
+          breakpoints = [
+            await manager.setBreakpoint({
+              ...parseUrlPattern(url),
+              lineNumber,
+              columnNumber,
+              condition,
+            }),
+          ];
+        } else if (source && !url) {
+          breakpoints = await manager.setBreakpointAtOriginal(
+            source,
+            lineNumber,
+            columnNumber ?? 0,
+            condition,
+          );
+        } else {
+          throw new Error('Provide exactly one of url or source.');
+        }
+        return {
+          content: [
+            {
+              type: 'text',
+              text: [
+                `Set ${breakpoints.length} breakpoint(s):`,
+                ...breakpoints.map(formatBreakpoint),
+              ].join('\n'),
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          isError: true,
+          content: [
+            {
+              type: 'text',
+              text:
+                error instanceof Error
+                  ? `Failed to set breakpoint: ${error.message}`
+                  : 'Failed to set breakpoint.',
+            },
+          ],
+        };
+      }
+    },
+  );
+
+  server.registerTool(
+    'debugger_add_logpoint',
+    {
+      description:
+        'Log a message from a line of code without pausing or redeploying. Output appears in list_logs with kind "logpoint".',
+      inputSchema: addLogpointShape,
+    },
+    async ({target, url, source, line, column, template, condition, level}: AddLogpointArgs) => {
+      try {
+        const session = sessions.get(target);
+        let locations: LogpointLocation[];
+        if (url && !source) {
+          locations = [
+            {
+              urlRegex: parseUrlPattern(url).urlRegex ?? escapeRegex(url),
+              lineNumber: line - 1,
+              columnNumber: column !== undefined ? column - 1 : undefined,
+            },
+          ];
+        } else if (source && !url) {
+          const generated = await session.scripts.findGeneratedLocations(
+            source,
+            line - 1,
+            (column ?? 1) - 1,
+          );
+          locations = generated.map(location => ({
+            // Inline and eval'd scripts have no URL to match on.
+            ...(location.script.url
+              ? {urlRegex: `^${escapeRegex(location.script.url)}$`}
+              : {scriptId: location.script.scriptId}),
+            lineNumber: location.lineNumber,
+            columnNumber: location.columnNumber,
+          }));
+        } else {
+          throw new Error('Provide exactly one of url or source.');
+        }
+        if (!locations.length) {
+          throw new Error(`No loaded script has a source map with a mapping for ${source}:${line}.`);
+        }
+        const logpoints: BreakpointInfo[] = [];
+        for (const location of locations) {
+          logpoints.push(
+            await session.debugger.addLogpoint(location, {template, condition, level}),
+          );
+        }
+        return {
+          content: [
+            {
+              type: 'text',
+              text: [
+                `Added ${logpoints.length} logpoint(s):`,
+                ...logpoints.map(formatBreakpoint),
+              ].join('\n'),
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          isError: true,
+          content: [
+            {
+              type: 'text',
+              text:
+                error instanceof Error
+                  ? `Failed to add logpoint: ${error.message}`
+                  : 'Failed to add logpoint.',
+            },
+          ],
+        };
+      }
+    },
+  );
+
+  server.registerTool(
+    'debugger_remove_breakpoint',
+    {
+      description: 'Remove a breakpoint or logpoint by id.',
+      inputSchema: removeBreakpointShape,
+    },
+    async ({target, breakpointId}: RemoveBreakpointArgs) => {
+      try {
+        await sessions.get(target).debugger.removeBreakpoint(breakpointId);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Removed breakpoint ${breakpointId}.`,
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          isError: true,
+          content: [
+            {
+              type: 'text',
+              text:
+                error instanceof Error
+                  ? `Failed to remove breakpoint: ${error.message}`
+                  : 'Failed to remove breakpoint.',
+            },
+          ],
+        };
+      }
+    },
+  );
+
+  server.registerTool(
+    'debugger_list_breakpoints',
+    {
+      description: 'List breakpoints, the pause-on-exceptions setting, and whether the page is paused.',
+      inputSchema: targetOnlyShape,
+    },
+    async ({target}: {target?: string}) => {
+      try {
+        const manager = sessions.get(target).debugger;
+        const breakpoints = manager.listBreakpoints();
+        return {
+          content: [
+            {
+              type: 'text',
+              text: [
+                `Pause on exceptions: ${manager.pauseOnExceptions}`,
+                manager.paused ? `Paused (${manager.paused.reason}).` : 'Running.',
+                breakpoints.length ? 'Breakpoints:' : 'No breakpoints set.',
+                ...breakpoints.map(formatBreakpoint),
+              ].join('\n'),
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          isError: true,
+          content: [
+            {
+              type: 'text',
+              text:
+                error instanceof Error
+                  ? `Failed to list breakpoints: ${error.message}`
+                  : 'Failed to list breakpoints.',
+            },
+          ],
+        };
+      }
+    },
+  );
+
+  server.registerTool(
+    'debugger_pause_on_exceptions',
+    {
+      description: 'Pause when exceptions are thrown: none, uncaught, or all.',
+      inputSchema: pauseOnExceptionsShape,
+    },
+    async ({target, state}: PauseOnExceptionsArgs) => {
+      try {
+        await sessions.get(target).debugger.setPauseOnExceptions(state);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Pause on exceptions: ${state}.`,
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          isError: true,
+          content: [
+            {
+              type: 'text',
+              text:
+                error instanceof Error
+                  ? `Failed to set pause on exceptions: ${error.message}`
+                  : 'Failed to set pause on exceptions.',
+            },
+          ],
+        };
+      }
+    },
+  );
+
+  server.registerTool(
+    'debugger_resume',
+    {
+      description: 'Resume a paused page.',
+      inputSchema: targetOnlyShape,
+    },
+    async ({target}: {target?: string}) => {
+      try {
+        await sessions.get(target).debugger.resume();
+        return {
+          content: [
+            {
+              type: 'text',
+              text: 'Resumed.',
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          isError: true,
+          content: [
+            {
+              type: 'text',
+              text:
+                error instanceof Error
+                  ? `Failed to resume: ${error.message}`
+                  : 'Failed to resume.',
+            },
+          ],
+        };
+      }
+    },
+  );
+
+  for (const kind of ['over', 'into', 'out'] as const) {
+    server.registerTool(
+      `debugger_step_${kind}`,
+      {
+        description: `Step ${kind} ${kind === 'over' ? 'the current statement' : kind === 'into' ? 'the next function call' : 'of the current function'} and report where the page paused next.`,
+        inputSchema: targetOnlyShape,
+      },
+      async ({target}: {target?: string}) => {
+        try {
+          const session = sessions.get(target);
+          const paused = await session.debugger.step(kind);
+          if (!paused) {
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: 'The page is running (no pause within a few seconds).',
+                },
+              ],
+            };
+          }
+          return {
+            content: [
+              {
+                type: 'text',
+                text: await formatPausedState(session, paused, 1, true),
+              },
+            ],
+          };
+        } catch (error) {
+          return {
+            isError: true,
+            content: [
+              {
+                type: 'text',
+                text:
+                  error instanceof Error
+                    ? `Failed to step ${kind}: ${error.message}`
+                    : `Failed to step ${kind}.`,
+              },
+            ],
+          };
+        }
+      },
+    );
+  }
+
+  server.registerTool(
+    'debugger_get_call_stack',
+    {
+      description:
+        'Show the paused call stack with frame indexes, callFrameIds, and source-mapped locations.',
+      inputSchema: callStackShape,
+    },
+    async ({target, maxFrames, sourceMapped}: CallStackArgs) => {
+      try {
+        const session = sessions.get(target);
+        const paused = session.debugger.paused;
+        if (!paused) {
+          throw new Error('The page is not paused.');
+        }
+        return {
+          content: [
+            {
+              type: 'text',
+              text: await formatPausedState(session, paused, maxFrames, sourceMapped),
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          isError: true,
+          content: [
+            {
+              type: 'text',
+              text:
+                error instanceof Error
+                  ? `Failed to get call stack: ${error.message}`
+                  : 'Failed to get call stack.',
+            },
+          ],
+        };
+      }
+    },
+  );
+
+  server.registerTool(
+    'debugger_get_scope_variables',
+    {
+      description:
+        'List the variables in each scope (local, closure, block, …) of a paused call frame.',
+      inputSchema: scopeVariablesShape,
+    },
+    async ({target, frameIndex, includeGlobal, maxProperties}: ScopeVariablesArgs) => {
+      try {
+        const session = sessions.get(target);
+        const frame = session.debugger.callFrame(frameIndex);
+        const sections = [`Frame #${frameIndex} ${formatFrame(frame)}`];
+        if (frame.thisObjectId) {
+          sections.push(`this → ${frame.thisObjectId}`);
+        }
+        for (const scope of frame.scopeChain) {
+          const heading = `${scope.type} scope${scope.name ? ` (${scope.name})` : ''}`;
+          if (scope.type === 'global' && !includeGlobal) {
+            sections.push(`${heading}: skipped (pass includeGlobal to list)`);
+            continue;
+          }
+          if (!scope.objectId) {
+            sections.push(`${heading}: unavailable`);
+            continue;
+          }
+          const {properties} = await session.getProperties(scope.objectId);
+          const lines = properties
+            .slice(0, maxProperties)
+            .map(property => `  ${formatProperty(property)}`);
+          if (properties.length > maxProperties) {
+            lines.push(`  … ${properties.length - maxProperties} more`);
+          }
+          sections.push([`${heading}:`, ...(lines.length ? lines : ['  (empty)'])].join('\n'));
+        }
+        return {
+          content: [
+            {
+              type: 'text',
+              text: sections.join('\n\n'),
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          isError: true,
+          content: [
+            {
+              type: 'text',
+              text:
+                error instanceof Error
+                  ? `Failed to get scope variables: ${error.message}`
+                  : 'Failed to get scope variables.',
+            },
+          ],
+        };
+      }
+    },
+  );
+}
+
+/**
+ * `/pattern/` targets every script whose URL matches; anything else, including
+ * a path such as `/app/main` whose suffix is not regex flags, is an exact URL.
+ */
+function parseUrlPattern(url: string): {url?: string; urlRegex?: string} {
+  const literal = parseRegexLiteral(url);
+  if (!literal) {
+    return {url};
+  }
+  if (literal.flags) {
+    // Chrome matches breakpoint URL regexes as-is; flags cannot be honoured.
+    throw new Error(`URL regexes cannot take flags (got ${url}); Chrome matches them case-sensitively.`);
+  }
+  return {urlRegex: literal.source};
+}
+
+function formatBreakpoint(breakpoint: BreakpointInfo): string {
+  const where = breakpoint.url ?? (breakpoint.urlRegex ? `/${breakpoint.urlRegex}/` : `script ${breakpoint.scriptId}`);
+  const column = breakpoint.columnNumber !== undefined ? `:${breakpoint.columnNumber + 1}` : '';
+  const parts = [`  ${breakpoint.id}: ${where}:${breakpoint.lineNumber + 1}${column}`];
+  if (breakpoint.original) {
+    const {source, lineNumber, columnNumber} = breakpoint.original;
+    parts.push(`(from ${source}:${lineNumber + 1}:${columnNumber + 1})`);
+  }
+  if (breakpoint.logpoint) {
+    const {id, level, template, condition} = breakpoint.logpoint;
+    parts.push(`logpoint ${id} console.${level} "${template}"${condition ? ` if ${condition}` : ''}`);
+  } else if (breakpoint.condition) {
+    parts.push(`if ${breakpoint.condition}`);
+  }
+  parts.push(
+    breakpoint.locations.length
+      ? `[${breakpoint.locations.length} location(s) resolved]`
+      : '[not yet resolved in a loaded script]',
+  );
+  return parts.join(' ');
+}
+
+async function formatPausedState(
+  session: PageSession,
+  paused: PausedState,
+  maxFrames: number,
+  sourceMapped: boolean,
+): Promise<string> {
+  const lines = [`Paused (${paused.reason}) at ${paused.at.toISOString()}`];
+  if (paused.hitBreakpoints.length) {
+    lines.push(`Hit breakpoints: ${paused.hitBreakpoints.join(', ')}`);
+  }
+  if (paused.dataDescription) {
+    lines.push(`Data: ${paused.dataDescription.split('\n')[0]}${paused.dataObjectId ? ` → ${paused.dataObjectId}` : ''}`);
+  }
+  const frames = paused.callFrames.slice(0, maxFrames);
+  for (const [index, frame] of frames.entries()) {
+    const original = sourceMapped
+      ? await session.scripts.resolve(frame).catch(() => undefined)
+      : undefined;
+    lines.push(`#${index} ${formatFrame(frame, original)} callFrameId=${frame.callFrameId}`);
+  }
+  if (paused.callFrames.length > frames.length) {
+    lines.push(`… ${paused.callFrames.length - frames.length} more frame(s)`);
+  }
+  return lines.join('\n');
+}
@@ -1,10 +1,12 @@
 import {z} from 'zod';
 
 import {DomActions} from '../domActions.js';
-import type {PageSession} from '../pageSession.js';
+import {perSession, type SessionRegistry} from '../sessionRegistry.js';
 import type {McpServer} from '@modelcontextprotocol/sdk/server/mcp.js';
+import {targetArgShape} from './targetTools.js';
 
 const selectorShape = {
+  ...targetArgShape,
   selector: z
     .string()
     .min(1, 'Provide a CSS selector targeting an element.'),
@@ -37,9 +39,9 @@ type TypeArgs = z.infer<typeof typeArgsSchema>;
 
 export function registerDomActions(
   server: McpServer,
-  session: PageSession,
+  sessions: SessionRegistry,
 ): void {
-  const actions = new DomActions(session);
+  const actionsFor = perSession(session => new DomActions(session));
 
   server.registerTool(
     'dom_click',
@@ -47,8 +49,9 @@ export function registerDomActions(
       description: 'Trigger a click on the element matched by a selector.',
       inputSchema: clickArgsSchema.shape,
     },
-    async ({selector, index}: ClickArgs) => {
+    async ({target, selector, index}: ClickArgs) => {
       try {
+        const actions = actionsFor(sessions.get(target));
         await actions.click({selector, index});
         return {
           content: [
@@ -78,8 +81,9 @@ export function registerDomActions(
       description: 'Set or append text content in an element matched by a selector.',
       inputSchema: typeArgsSchema.shape,
     },
-    async ({selector, text, index, replace, submit}: TypeArgs) => {
+    async ({target, selector, text, index, replace, submit}: TypeArgs) => {
       try {
+        const actions = actionsFor(sessions.get(target));
         await actions.type({selector, text, index, replace, submit});
         const action = replace ? 'Set' : 'Appended';
         const suffix = submit ? ' and submitted form' : '';
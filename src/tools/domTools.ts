@@ -1,8 +1,9 @@
 import {z} from 'zod';
 
 import {DomInspector, type SelectorSummary} from '../domInspector.js';
-import type {PageSession} from '../pageSession.js';
+import {perSession, type SessionRegistry} from '../sessionRegistry.js';
 import type {McpServer} from '@modelcontextprotocol/sdk/server/mcp.js';
+import {targetArgShape} from './targetTools.js';
 
 const selectorShape = {
   selector: z
@@ -11,6 +12,7 @@ const selectorShape = {
 } as const;
 
 const describeShape = {
+  ...targetArgShape,
   ...selectorShape,
   index: z
     .number()
@@ -32,6 +34,7 @@ const describeShape = {
 } as const;
 
 const outerHtmlShape = {
+  ...targetArgShape,
   ...selectorShape,
   index: z
     .number()
@@ -42,6 +45,7 @@ const outerHtmlShape = {
 } as const;
 
 const accessibilityShape = {
+  ...targetArgShape,
   selector: z
     .string()
     .min(1)
@@ -64,6 +68,7 @@ const accessibilityShape = {
 } as const;
 
 interface DescribeArgs {
+  target?: string;
   selector: string;
   index?: number;
   maxResults: number;
@@ -71,11 +76,13 @@ interface DescribeArgs {
 }
 
 interface OuterHtmlArgs {
+  target?: string;
   selector: string;
   index?: number;
 }
 
 interface AccessibilityArgs {
+  target?: string;
   selector?: string;
   maxDepth: number;
   maxNodes: number;
@@ -83,8 +90,8 @@ interface AccessibilityArgs {
 
 const ATTRIBUTE_DISPLAY_LIMIT = 8;
 
-export function registerDomTools(server: McpServer, session: PageSession): void {
-  const inspector = new DomInspector(session);
+export function registerDomTools(server: McpServer, sessions: SessionRegistry): void {
+  const inspectorFor = perSession(session => new DomInspector(session));
 
   server.registerTool(
     'dom_query_selector',
@@ -92,8 +99,9 @@ export function registerDomTools(server: McpServer, session: PageSession): void
       description: 'Inspect the first element that matches a CSS selector.',
       inputSchema: describeShape,
     },
-    async ({selector, index, maxResults, includeOuterHtml}: DescribeArgs) => {
+    async ({target, selector, index, maxResults, includeOuterHtml}: DescribeArgs) => {
       try {
+        const inspector = inspectorFor(sessions.get(target));
         const summaries = await inspector.describeSelector({
           selector,
           index,
@@ -129,8 +137,9 @@ export function registerDomTools(server: McpServer, session: PageSession): void
       description: 'Return the full outer HTML of the first matching element.',
       inputSchema: outerHtmlShape,
     },
-    async ({selector, index}: OuterHtmlArgs) => {
+    async ({target, selector, index}: OuterHtmlArgs) => {
       try {
+        const inspector = inspectorFor(sessions.get(target));
         const outerHTML = await inspector.getOuterHTML(selector, index);
         return {
           content: [
@@ -161,8 +170,9 @@ export function registerDomTools(server: McpServer, session: PageSession): void
         'Dump the accessibility tree for the page or a targeted subtree.',
       inputSchema: accessibilityShape,
     },
-    async ({selector, maxDepth, maxNodes}: AccessibilityArgs) => {
+    async ({target, selector, maxDepth, maxNodes}: AccessibilityArgs) => {
       try {
+        const inspector = inspectorFor(sessions.get(target));
         const tree = await inspector.getAccessibilityTree({
           selector,
           maxDepth,
@@ -3,8 +3,16 @@ import {z} from 'zod';
 import type {McpServer} from '@modelcontextprotocol/sdk/server/mcp.js';
 
 import type {PageSession} from '../pageSession.js';
+import type {SessionRegistry} from '../sessionRegistry.js';
+import {targetArgShape} from './targetTools.js';
+
+// Longest slice of a (minified) source line shown in a handler snippet.
+const SNIPPET_LINE_CHARS = 160;
 
 const listenerShape = {
+  // `target` already selects selector/document/window here, so the page
+  // target is exposed as `targetName` instead.
+  targetName: targetArgShape.target,
   target: z
     .enum(['selector', 'document', 'window'])
     .default('selector')
@@ -35,6 +43,21 @@ const listenerShape = {
     .max(200)
     .default(50)
     .describe('Limit the number of listeners returned.'),
+  subtree: z
+    .boolean()
+    .default(false)
+    .describe('List listeners on the element (or document) and every descendant, grouped by element.'),
+  sourceLines: z
+    .number()
+    .int()
+    .min(0)
+    .max(20)
+    .default(3)
+    .describe('Lines of handler source to show from its location (0 to omit).'),
+  sourceMapped: z
+    .boolean()
+    .default(true)
+    .describe('Show handler locations and source in the original sources when source maps load.'),
 } as const;
 
 const listenerArgsSchema = z.object(listenerShape);
@@ -42,23 +65,29 @@ type ListenerArgs = z.infer<typeof listenerArgsSchema>;
 
 export function registerEventListenerTools(
   server: McpServer,
-  session: PageSession,
+  sessions: SessionRegistry,
 ): void {
   server.registerTool(
     'dom_list_event_listeners',
     {
-      description: 'List DOM event listeners attached to an element, document, or window.',
+      description:
+        'List DOM event listeners attached to an element, document, or window (or a whole subtree), with handler locations and source.',
       inputSchema: listenerShape,
     },
     async ({
+      targetName,
       target,
       selector,
       includeAncestors,
       depth,
       eventTypes,
       maxListeners,
+      subtree,
+      sourceLines,
+      sourceMapped,
     }: ListenerArgs) => {
       try {
+        const session = sessions.get(targetName);
         const client = await session.getClient();
         let objectId: string | undefined;
         const release = async () => {
@@ -70,6 +99,9 @@ export function registerEventListenerTools(
         };
 
         try {
+          if (subtree && target === 'window') {
+            throw new Error('subtree needs target "selector" or "document".');
+          }
           if (target === 'window') {
             const {result} = await session.sendCommand<{
               result: {objectId?: string | null};
@@ -112,10 +144,12 @@ export function registerEventListenerTools(
             throw new Error('Unable to resolve object for event listener inspection.');
           }
 
-          const {listeners} = await client.DOMDebugger.getEventListeners({
-            objectId,
-            depth: includeAncestors ? depth : 0,
-          });
+          // depth -1 also returns descendants' listeners, tagged with their node.
+          const {listeners} = await client.DOMDebugger.getEventListeners(
+            subtree
+              ? {objectId, depth: -1, pierce: true}
+              : {objectId, depth: includeAncestors ? depth : 0},
+          );
 
           const filtered = (listeners ?? []).filter(listener => {
             if (eventTypes?.length) {
@@ -136,7 +170,32 @@ export function registerEventListenerTools(
             };
           }
 
-          const lines = limited.map((listener, index) => formatListener(listener, index));
+          const sourceOptions = {sourceLines, sourceMapped};
+          const lines: string[] = [];
+          if (subtree) {
+            const groups = new Map<number | undefined, typeof limited>();
+            for (const listener of limited) {
+              const group = groups.get(listener.backendNodeId) ?? [];
+              group.push(listener);
+              groups.set(listener.backendNodeId, group);
+            }
+            let index = 0;
+            for (const [backendNodeId, group] of groups) {
+              const label = await describeElement(session, backendNodeId);
+              const entries: string[] = [];
+              for (const listener of group) {
+                const formatted = await formatListener(session, listener, index++, sourceOptions);
+                entries.push(formatted.replace(/^/gm, '  '));
+              }
+              lines.push(
+                `${label} (${group.length} listener${group.length === 1 ? '' : 's'})\n${entries.join('\n\n')}`,
+              );
+            }
+          } else {
+            for (const [index, listener] of limited.entries()) {
+              lines.push(await formatListener(session, listener, index, sourceOptions));
+            }
+          }
           if (filtered.length > limited.length) {
             lines.push(`… ${filtered.length - limited.length} more listener(s) truncated.`);
           }
@@ -175,7 +234,8 @@ export function registerEventListenerTools(
   );
 }
 
-function formatListener(
+async function formatListener(
+  session: PageSession,
   listener: {
     type: string;
     useCapture?: boolean;
@@ -192,7 +252,8 @@ function formatListener(
     columnNumber?: number;
   },
   index: number,
-): string {
+  options: {sourceLines: number; sourceMapped: boolean},
+): Promise<string> {
   const flags = [
     listener.useCapture ? 'capture' : 'bubble',
     listener.passive ? 'passive' : undefined,
@@ -207,13 +268,100 @@ function formatListener(
     lineNumber: listener.lineNumber,
     columnNumber: listener.columnNumber,
   };
-  const position = location?.scriptId
-    ? `script ${location.scriptId}:${(location.lineNumber ?? 0) + 1}:${(location.columnNumber ?? 0) + 1}`
-    : 'script location unavailable';
+  if (!location?.scriptId) {
+    return [header, `handler: ${handlerName}`, 'location: script location unavailable'].join('\n');
+  }
 
-  return [
+  const lineNumber = location.lineNumber ?? 0;
+  const columnNumber = location.columnNumber ?? 0;
+  const script = session.scripts.get(location.scriptId);
+  const generated = script?.url
+    ? `${script.url}:${lineNumber + 1}:${columnNumber + 1}`
+    : `script ${location.scriptId}:${lineNumber + 1}:${columnNumber + 1}`;
+  const original =
+    script && options.sourceMapped
+      ? await session.scripts
+          .resolve({scriptId: script.scriptId, url: script.url, lineNumber, columnNumber})
+          .catch(() => undefined)
+      : undefined;
+  const lines = [
     header,
     `handler: ${handlerName}`,
-    `location: ${position}`,
-  ].join('\n');
+    `location: ${
+      original
+        ? `${original.url}:${original.lineNumber + 1}:${original.columnNumber + 1} [${generated}]`
+        : generated
+    }`,
+  ];
+
+  if (script && options.sourceLines > 0) {
+    // Prefer the original source embedded in the map; fall back to the script.
+    const map = original ? await session.scripts.sourceMapFor(script) : undefined;
+    const originalText = original ? map?.sourceContent(original.url) : undefined;
+    const snippet = originalText !== undefined
+      ? sourceSnippet(originalText, original!.lineNumber, original!.columnNumber, 0, options.sourceLines)
+      : await session.scripts.getSource(script.scriptId).then(text =>
+          text === undefined
+            ? undefined
+            : sourceSnippet(
+                text,
+                lineNumber - script.startLine,
+                lineNumber === script.startLine ? columnNumber - script.startColumn : columnNumber,
+                script.startLine,
+                options.sourceLines,
+              ),
+        );
+    if (snippet?.length) {
+      lines.push('source:', ...snippet);
+    }
+  }
+  return lines.join('\n');
+}
+
+/**
+ * `count` numbered lines starting at the handler. Lines are trimmed to a
+ * window around the handler column so minified bundles stay readable.
+ */
+function sourceSnippet(
+  text: string,
+  lineNumber: number,
+  columnNumber: number,
+  lineOffset: number,
+  count: number,
+): string[] {
+  const sourceLines = text.split(/\r?\n/).slice(lineNumber, lineNumber + count);
+  const width = String(lineNumber + lineOffset + sourceLines.length).length;
+  return sourceLines.map((line, index) => {
+    const start = index === 0 ? Math.max(0, columnNumber - 20) : 0;
+    const end = start + SNIPPET_LINE_CHARS;
+    const visible = `${start > 0 ? '…' : ''}${line.slice(start, end)}${line.length > end ? '…' : ''}`;
+    return `  ${String(lineNumber + lineOffset + index + 1).padStart(width)}  ${visible.trimEnd()}`;
+  });
+}
+
+/** `div#menu.list`-style label for the element a listener is attached to. */
+async function describeElement(
+  session: PageSession,
+  backendNodeId: number | undefined,
+): Promise<string> {
+  if (backendNodeId === undefined) {
+    return '<root>';
+  }
+  try {
+    const {node} = await session.sendCommand<{
+      node: {nodeName: string; localName?: string; attributes?: string[]};
+    }>('DOM.describeNode', {backendNodeId});
+    if (!node.localName) {
+      return node.nodeName.toLowerCase();
+    }
+    const attributes = new Map<string, string>();
+    for (let i = 0; i + 1 < (node.attributes?.length ?? 0); i += 2) {
+      attributes.set(node.attributes![i]!, node.attributes![i + 1]!);
+    }
+    const id = attributes.get('id');
+    const classes = (attributes.get('class') ?? '').split(/\s+/).filter(Boolean);
+    return `${node.localName}${id ? `#${id}` : ''}${classes.map(name => `.${name}`).join('')}`;
+  } catch {
+    return `<node ${backendNodeId}>`;
+  }
 }
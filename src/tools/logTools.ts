@@ -0,0 +1,349 @@
+import {writeFile} from 'node:fs/promises';
+import {resolve} from 'node:path';
+
+import {z} from 'zod';
+
+import type {McpServer} from '@modelcontextprotocol/sdk/server/mcp.js';
+
+import {
+  toPersistedEntry,
+  type LogFileWriter,
+  type PersistedLogEntry,
+} from '../logPersistence.js';
+import type {LogArgument, PageLogEntry, PageSession} from '../pageSession.js';
+import {formatFrame} from '../scriptCatalog.js';
+import type {SessionRegistry} from '../sessionRegistry.js';
+import {formatProperty} from './runtimeTools.js';
+import {targetArgShape} from './targetTools.js';
+
+export interface LogToolOptions {
+  /** Rotating JSONL file, when persistence is enabled. */
+  logFile?: LogFileWriter;
+}
+
+const LOG_EXPORT_FORMATS = ['jsonl', 'text', 'csv'] as const;
+type LogExportFormat = (typeof LOG_EXPORT_FORMATS)[number];
+
+const EXPORT_MIME_TYPES: Record<LogExportFormat, string> = {
+  jsonl: 'application/x-ndjson',
+  text: 'text/plain',
+  csv: 'text/csv',
+};
+
+const exportLogsShape = {
+  ...targetArgShape,
+  since: z
+    .string()
+    .min(1)
+    .optional()
+    .describe('Start of the window: ISO timestamp, or a duration ago such as 90s, 15m, 2h.'),
+  until: z
+    .string()
+    .min(1)
+    .optional()
+    .describe('End of the window, in the same formats as since.'),
+  format: z
+    .enum(LOG_EXPORT_FORMATS)
+    .default('text')
+    .describe('jsonl (one JSON object per line), text, or csv.'),
+  path: z
+    .string()
+    .min(1)
+    .optional()
+    .describe('File to write. Omit to return the export as an embedded resource.'),
+  source: z
+    .enum(['auto', 'buffer', 'file'])
+    .default('auto')
+    .describe('Read from the in-memory buffer or the persisted log file (auto prefers the file when enabled).'),
+} as const;
+
+const getEntryShape = {
+  ...targetArgShape,
+  id: z.number().int().min(1).describe('Entry id, as shown by list_logs (#id).'),
+  expandObjects: z
+    .boolean()
+    .default(true)
+    .describe('List the properties of object arguments that are still live in the page.'),
+  maxProperties: z
+    .number()
+    .int()
+    .min(1)
+    .max(200)
+    .default(20)
+    .describe('Maximum properties to list per expanded object.'),
+  sourceMapped: z
+    .boolean()
+    .default(true)
+    .describe('Show stack frames at their original source-mapped locations.'),
+} as const;
+
+const exportLogsArgsSchema = z.object(exportLogsShape);
+type ExportLogsArgs = z.infer<typeof exportLogsArgsSchema>;
+
+const getEntryArgsSchema = z.object(getEntryShape);
+type GetEntryArgs = z.infer<typeof getEntryArgsSchema>;
+
+export function registerLogTools(
+  server: McpServer,
+  sessions: SessionRegistry,
+  options: LogToolOptions = {},
+): void {
+  server.registerTool(
+    'logs_get_entry',
+    {
+      description:
+        'Show one log entry in detail: every argument with its type, the exception, the full stack trace, and the properties of object arguments that are still live.',
+      inputSchema: getEntryShape,
+    },
+    async ({target, id, expandObjects, maxProperties, sourceMapped}: GetEntryArgs) => {
+      try {
+        const session = sessions.get(target);
+        const entry = session.getEntry(id);
+        if (!entry) {
+          throw new Error(`Entry #${id} is not in the buffer (it may have been cleared or evicted).`);
+        }
+        const text = await formatEntryDetail(session, entry, {
+          expandObjects,
+          maxProperties,
+          sourceMapped,
+        });
+        return {
+          content: [
+            {
+              type: 'text',
+              text,
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          isError: true,
+          content: [
+            {
+              type: 'text',
+              text:
+                error instanceof Error
+                  ? `Failed to get log entry: ${error.message}`
+                  : 'Failed to get log entry.',
+            },
+          ],
+        };
+      }
+    },
+  );
+
+  server.registerTool(
+    'logs_export',
+    {
+      description:
+        'Export a time window of log entries as JSONL, plain text, or CSV, to a file or as an embedded resource.',
+      inputSchema: exportLogsShape,
+    },
+    async ({target, since, until, format, path, source}: ExportLogsArgs) => {
+      try {
+        const from = since ? parseTimeBound(since) : undefined;
+        const to = until ? parseTimeBound(until) : undefined;
+        const session = sessions.get(target);
+        const targetName = sessions.nameOf(session) ?? target ?? 'default';
+
+        if (source === 'file' && !options.logFile) {
+          throw new Error('Log persistence is not enabled; start the server with --log-file.');
+        }
+        const entries =
+          source !== 'buffer' && options.logFile
+            ? (await options.logFile.readEntries()).filter(entry => entry.target === targetName)
+            : session
+                .getEntries({limit: Number.MAX_SAFE_INTEGER, newestFirst: false})
+                .map(entry => toPersistedEntry(targetName, entry));
+        const selected = entries.filter(entry => {
+          const time = Date.parse(entry.timestamp);
+          return (!from || time >= from.getTime()) && (!to || time <= to.getTime());
+        });
+
+        const text = formatExport(selected, format);
+        const count = selected.length;
+        const summary = `${count} log entr${count === 1 ? 'y' : 'ies'}`;
+        if (path) {
+          const filePath = resolve(path);
+          await writeFile(filePath, text, 'utf8');
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `Wrote ${summary} to ${filePath}.`,
+              },
+            ],
+          };
+        }
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Exported ${summary} as ${format}.`,
+            },
+            {
+              type: 'resource',
+              resource: {
+                uri: `logs://export/${Date.now()}.${format === 'text' ? 'log' : format}`,
+                mimeType: EXPORT_MIME_TYPES[format],
+                text,
+              },
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          isError: true,
+          content: [
+            {
+              type: 'text',
+              text:
+                error instanceof Error
+                  ? `Failed to export logs: ${error.message}`
+                  : 'Failed to export logs.',
+            },
+          ],
+        };
+      }
+    },
+  );
+}
+
+/** Accept an ISO timestamp or a duration before now (`90s`, `15m`, `2h`, `1d`). */
+export function parseTimeBound(value: string, now = Date.now()): Date {
+  const relative = /^(\d+(?:\.\d+)?)\s*(ms|s|m|h|d)$/i.exec(value.trim());
+  if (relative) {
+    const unitMs: Record<string, number> = {ms: 1, s: 1000, m: 60_000, h: 3_600_000, d: 86_400_000};
+    return new Date(now - Number(relative[1]) * unitMs[relative[2]!.toLowerCase()]!);
+  }
+  const parsed = Date.parse(value);
+  if (Number.isNaN(parsed)) {
+    throw new Error(`Invalid time "${value}". Use an ISO timestamp or a duration such as 15m.`);
+  }
+  return new Date(parsed);
+}
+
+async function formatEntryDetail(
+  session: PageSession,
+  entry: PageLogEntry,
+  options: {expandObjects: boolean; maxProperties: number; sourceMapped: boolean},
+): Promise<string> {
+  const lines = [
+    `#${entry.id} ${entry.kind.toUpperCase()} ${entry.level.toUpperCase()} at ${entry.timestamp.toISOString()}`,
+    `Message: ${entry.message}`,
+  ];
+  if (entry.url) {
+    lines.push(`URL: ${entry.url}`);
+  }
+  if (entry.source) {
+    lines.push(`Source: ${entry.source}`);
+  }
+
+  if (entry.args?.length) {
+    lines.push('', 'Arguments:');
+    for (const [index, arg] of entry.args.entries()) {
+      lines.push(`  [${index}] ${formatArgument(arg)}`);
+      if (options.expandObjects && arg.objectId) {
+        lines.push(...(await expandArgument(session, arg.objectId, options.maxProperties)));
+      }
+    }
+  }
+
+  const exception = entry.exception;
+  if (exception) {
+    const position =
+      exception.lineNumber !== undefined
+        ? `${exception.url || '<anonymous>'}:${exception.lineNumber + 1}:${(exception.columnNumber ?? 0) + 1}`
+        : exception.url;
+    lines.push('', 'Exception:');
+    if (exception.className) {
+      lines.push(`  Class: ${exception.className}`);
+    }
+    if (position) {
+      lines.push(`  Thrown at: ${position}${exception.scriptId ? ` (scriptId ${exception.scriptId})` : ''}`);
+    }
+    if (exception.description) {
+      lines.push(...exception.description.split('\n').map(line => `  ${line}`));
+    }
+    if (options.expandObjects && exception.objectId) {
+      lines.push(...(await expandArgument(session, exception.objectId, options.maxProperties)));
+    }
+  }
+
+  if (entry.stack?.length) {
+    lines.push('', 'Stack:');
+    for (const frame of entry.stack) {
+      const original = options.sourceMapped
+        ? await session.scripts.resolve(frame).catch(() => undefined)
+        : undefined;
+      lines.push(`  ${formatFrame(frame, original)}`);
+    }
+  }
+  return lines.join('\n');
+}
+
+function formatArgument(arg: LogArgument): string {
+  const type = arg.subtype ? `${arg.type}/${arg.subtype}` : arg.type;
+  const value = arg.type === 'string' ? JSON.stringify(arg.value) : arg.value;
+  const preview = arg.preview ? ` ${arg.preview}` : '';
+  const handle = arg.objectId ? ` → ${arg.objectId}` : '';
+  return `${value}${preview} <${type}>${handle}`;
+}
+
+async function expandArgument(
+  session: PageSession,
+  objectId: string,
+  maxProperties: number,
+): Promise<string[]> {
+  try {
+    const {properties} = await session.getProperties(objectId);
+    const visible = properties.filter(property => property.name !== '__proto__');
+    const lines = visible
+      .slice(0, maxProperties)
+      .map(property => `      ${formatProperty(property)}`);
+    if (visible.length > maxProperties) {
+      lines.push(`      … ${visible.length - maxProperties} more`);
+    }
+    return lines.length ? lines : ['      (no properties)'];
+  } catch {
+    // Console handles die with their execution context (reload, navigation).
+    return ['      (object is no longer available in the page)'];
+  }
+}
+
+function formatExport(entries: PersistedLogEntry[], format: LogExportFormat): string {
+  switch (format) {
+    case 'jsonl':
+      return entries.map(entry => JSON.stringify(entry)).join('\n') + (entries.length ? '\n' : '');
+    case 'csv': {
+      const columns = ['id', 'timestamp', 'target', 'kind', 'level', 'source', 'url', 'message'] as const;
+      const rows = entries.map(entry =>
+        columns.map(column => csvCell(entry[column])).join(','),
+      );
+      return [columns.join(','), ...rows].join('\n') + '\n';
+    }
+    case 'text':
+      return entries
+        .map(entry => {
+          const parts = [
+            entry.timestamp,
+            entry.level.toUpperCase().padEnd(7),
+            `[${entry.kind}${entry.source ? `/${entry.source}` : ''}]`,
+            entry.message,
+          ];
+          if (entry.url) {
+            parts.push(`(${entry.url})`);
+          }
+          return parts.join(' ');
+        })
+        .join('\n') + (entries.length ? '\n' : '');
+  }
+}
+
+function csvCell(value: unknown): string {
+  if (value === undefined || value === null) {
+    return '';
+  }
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
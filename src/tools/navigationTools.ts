@@ -2,9 +2,12 @@ import {z} from 'zod';
 
 import type {McpServer} from '@modelcontextprotocol/sdk/server/mcp.js';
 
-import type {PageSession, NavigateOptions, ReloadOptions} from '../pageSession.js';
+import type {NavigateOptions, ReloadOptions} from '../pageSession.js';
+import type {SessionRegistry} from '../sessionRegistry.js';
+import {targetArgShape} from './targetTools.js';
 
 const navigateShape = {
+  ...targetArgShape,
   url: z
     .string()
     .url('Provide a valid URL (e.g., https://example.com).'),
@@ -22,6 +25,7 @@ const navigateShape = {
 } as const;
 
 const reloadShape = {
+  ...targetArgShape,
   ignoreCache: z
     .boolean()
     .default(false)
@@ -40,12 +44,14 @@ const reloadShape = {
 } as const;
 
 interface NavigateArgs {
+  target?: string;
   url: string;
   waitForLoad: boolean;
   timeoutMs: number;
 }
 
 interface ReloadArgs {
+  target?: string;
   ignoreCache: boolean;
   waitForLoad: boolean;
   timeoutMs: number;
@@ -53,7 +59,7 @@ interface ReloadArgs {
 
 export function registerNavigationTools(
   server: McpServer,
-  session: PageSession,
+  sessions: SessionRegistry,
 ): void {
   server.registerTool(
     'page_navigate',
@@ -61,8 +67,9 @@ export function registerNavigationTools(
       description: 'Navigate the page to a new URL.',
       inputSchema: navigateShape,
     },
-    async ({url, waitForLoad, timeoutMs}: NavigateArgs) => {
+    async ({target, url, waitForLoad, timeoutMs}: NavigateArgs) => {
       try {
+        const session = sessions.get(target);
         const options: NavigateOptions = {
           waitForLoad,
           timeoutMs,
@@ -99,8 +106,9 @@ export function registerNavigationTools(
       description: 'Reload the current page.',
       inputSchema: reloadShape,
     },
-    async ({ignoreCache, waitForLoad, timeoutMs}: ReloadArgs) => {
+    async ({target, ignoreCache, waitForLoad, timeoutMs}: ReloadArgs) => {
       try {
+        const session = sessions.get(target);
         const options: ReloadOptions = {
           ignoreCache,
           waitForLoad,
@@ -1,11 +1,101 @@
+import {readFile, writeFile} from 'node:fs/promises';
+import {basename, resolve} from 'node:path';
+
 import {z} from 'zod';
 
 import type {McpServer} from '@modelcontextprotocol/sdk/server/mcp.js';
 
-import {NetworkRecorder, type NetworkRequestRecord} from '../networkRecorder.js';
-import type {PageSession} from '../pageSession.js';
+import {
+  DEFAULT_RETAINED_BODY_BYTES,
+  DEFAULT_RETAINED_MIME_TYPES,
+  NetworkRecorder,
+  type NetworkCaptureStats,
+  type NetworkInitiator,
+  type NetworkNavigation,
+  type NetworkRequestRecord,
+  type NetworkSocketConnection,
+  type NetworkSocketFrame,
+  type NetworkTimingPhases,
+} from '../networkRecorder.js';
+import {NetworkMocker, type MockDefinition, type MockRule} from '../networkMocker.js';
+import {
+  NETWORK_CONDITION_PRESETS,
+  NETWORK_CONNECTION_TYPES,
+  NetworkConditioner,
+  describeConditions,
+  type NetworkConditions,
+  type NetworkConditionsPreset,
+} from '../networkConditions.js';
+import {buildHar, parseHar, type HarBodies} from '../har.js';
+import pkg from '../../package.json' with {type: 'json'};
+import {compileSearchPattern} from '../searchPattern.js';
+import {perSession, type SessionRegistry} from '../sessionRegistry.js';
+import {targetArgShape} from './targetTools.js';
+
+const captureShape = {
+  ...targetArgShape,
+} as const;
+
+const startCaptureShape = {
+  ...targetArgShape,
+  clear: z
+    .boolean()
+    .optional()
+    .describe('Drop earlier records (default: only when capture is not already running).'),
+  retainBodies: z
+    .boolean()
+    .default(false)
+    .describe('Keep request and response bodies as they arrive so they can be searched later.'),
+  maxBodyBytes: z
+    .number()
+    .int()
+    .min(1)
+    .max(50 * 1024 * 1024)
+    .default(DEFAULT_RETAINED_BODY_BYTES)
+    .describe('Largest body, in bytes, to retain.'),
+  mimeTypes: z
+    .array(z.string().min(1))
+    .optional()
+    .describe(
+      `MIME prefixes or suffixes eligible for retention (default ${DEFAULT_RETAINED_MIME_TYPES.join(', ')}).`,
+    ),
+} as const;
+
+const searchShape = {
+  ...targetArgShape,
+  query: z
+    .string()
+    .min(1, 'Provide text or a /regex/ to search for.')
+    .describe('Case-insensitive text or /regex/flags.'),
+  scopes: z
+    .array(z.enum(['url', 'headers', 'requestBody', 'responseBody']))
+    .default(['url', 'headers', 'requestBody', 'responseBody'])
+    .describe('Parts of each request to search.'),
+  limit: z
+    .number()
+    .int()
+    .min(1)
+    .max(200)
+    .default(20)
+    .describe('Maximum number of matching requests to return.'),
+  maxSnippets: z
+    .number()
+    .int()
+    .min(1)
+    .max(20)
+    .default(3)
+    .describe('Maximum snippets shown per matching field.'),
+  context: z
+    .number()
+    .int()
+    .min(0)
+    .max(500)
+    .default(60)
+    .describe('Characters of context on each side of a match.'),
+} as const;
 
 const listRequestsShape = {
+  ...targetArgShape,
   limit: z
     .number()
     .int()
@@ -29,9 +119,105 @@ const listRequestsShape = {
     .array(z.string())
     .optional()
     .describe('Filter by resource types reported by Chrome (e.g., XHR, Document).'),
+  includeInitiatorStack: z
+    .boolean()
+    .default(false)
+    .describe('Include the JavaScript stack that initiated each request.'),
+} as const;
+
+const waterfallShape = {
+  ...targetArgShape,
+  limit: z
+    .number()
+    .int()
+    .min(1)
+    .max(500)
+    .default(50)
+    .describe('Maximum number of requests to draw.'),
+  width: z
+    .number()
+    .int()
+    .min(20)
+    .max(200)
+    .default(60)
+    .describe('Width of the timeline bar in characters.'),
+  resourceTypes: z
+    .array(z.string())
+    .optional()
+    .describe('Filter by resource types (e.g., XHR, Script).'),
+  domain: z
+    .string()
+    .min(1)
+    .optional()
+    .describe('Only include requests whose host contains this string.'),
+} as const;
+
+const replayShape = {
+  ...targetArgShape,
+  requestId: z
+    .string()
+    .min(1, 'Provide the requestId from network_list_requests.'),
+  url: z.string().url().optional().describe('Send to this URL instead.'),
+  method: z.string().min(1).optional().describe('Send with this HTTP method instead.'),
+  headers: z
+    .record(z.string())
+    .optional()
+    .describe('Headers merged over the captured request headers.'),
+  removeHeaders: z
+    .array(z.string().min(1))
+    .optional()
+    .describe('Captured header names to leave out.'),
+  body: z.string().optional().describe('Replacement request body.'),
+  maxBodyChars: z
+    .number()
+    .int()
+    .min(0)
+    .max(5_000_000)
+    .default(10_000)
+    .describe('Maximum response body characters to return.'),
+  timeoutMs: z
+    .number()
+    .int()
+    .min(100)
+    .max(300_000)
+    .default(30_000)
+    .describe('Give up waiting for the response after this many milliseconds.'),
+} as const;
+
+const socketFramesShape = {
+  ...targetArgShape,
+  connection: z
+    .string()
+    .min(1)
+    .optional()
+    .describe('Only frames for this connection (requestId, or a substring of its URL).'),
+  search: z
+    .string()
+    .min(1)
+    .optional()
+    .describe('Case-insensitive text or /regex/flags matched against frame payloads.'),
+  direction: z
+    .enum(['sent', 'received'])
+    .optional()
+    .describe('Only frames in this direction.'),
+  limit: z
+    .number()
+    .int()
+    .min(1)
+    .max(500)
+    .default(50)
+    .describe('Maximum number of frames to return (most recent first).'),
+  previewLength: z
+    .number()
+    .int()
+    .min(20)
+    .max(10_000)
+    .default(200)
+    .describe('Maximum payload characters shown per frame.'),
 } as const;
 
 const bodyShape = {
+  ...targetArgShape,
   requestId: z
     .string()
     .min(1, 'Provide the requestId from network_list_requests.'),
@@ -41,21 +227,234 @@ const bodyShape = {
     .describe('Choose response to fetch response body, request for outbound payload.'),
 } as const;
 
+const emulateConditionsShape = {
+  ...targetArgShape,
+  preset: z
+    .enum(
+      Object.keys(NETWORK_CONDITION_PRESETS) as [
+        NetworkConditionsPreset,
+        ...NetworkConditionsPreset[],
+      ],
+    )
+    .optional()
+    .describe('Start from a named profile; explicit values below override it.'),
+  offline: z
+    .boolean()
+    .optional()
+    .describe('Simulate having no connection at all.'),
+  latencyMs: z
+    .number()
+    .min(0)
+    .max(60_000)
+    .optional()
+    .describe('Minimum added round-trip latency in milliseconds.'),
+  downloadKbps: z
+    .number()
+    .min(0)
+    .optional()
+    .describe('Download throughput in kbit/s (0 = unthrottled).'),
+  uploadKbps: z
+    .number()
+    .min(0)
+    .optional()
+    .describe('Upload throughput in kbit/s (0 = unthrottled).'),
+  connectionType: z
+    .enum(NETWORK_CONNECTION_TYPES)
+    .optional()
+    .describe('Connection type reported to navigator.connection.'),
+  reset: z
+    .boolean()
+    .default(false)
+    .describe('Remove all emulated conditions and restore the real network.'),
+} as const;
+
+const blockUrlsShape = {
+  ...targetArgShape,
+  patterns: z
+    .array(z.string().min(1))
+    .default([])
+    .describe('URL patterns to block; * is a wildcard. An empty list removes all blocks.'),
+  append: z
+    .boolean()
+    .default(false)
+    .describe('Add to the currently blocked patterns instead of replacing them.'),
+} as const;
+
+const NETWORK_ERROR_REASONS = [
+  'Failed',
+  'Aborted',
+  'TimedOut',
+  'AccessDenied',
+  'ConnectionClosed',
+  'ConnectionReset',
+  'ConnectionRefused',
+  'ConnectionAborted',
+  'ConnectionFailed',
+  'NameNotResolved',
+  'InternetDisconnected',
+  'AddressUnreachable',
+  'BlockedByClient',
+  'BlockedByResponse',
+] as const;
+
+const addMockShape = {
+  ...targetArgShape,
+  urlPattern: z
+    .string()
+    .min(1, 'Provide a URL glob (e.g., *://api.example.com/*) or /regex/.')
+    .describe(
+      'URL glob (* and ? wildcards) or /regex/flags matched against the full URL. A path like /api/users is a glob, so write *://*/api/users to match it on any host.',
+    ),
+  method: z
+    .string()
+    .min(1)
+    .optional()
+    .describe('Only match this HTTP method.'),
+  resourceTypes: z
+    .array(z.string())
+    .optional()
+    .describe('Only match these resource types (e.g., XHR, Fetch, Document).'),
+  action: z
+    .enum(['fulfill', 'fail', 'delay', 'modify'])
+    .default('fulfill')
+    .describe('fulfill with a canned response, fail the request, delay it, or modify it before sending.'),
+  status: z
+    .number()
+    .int()
+    .min(100)
+    .max(599)
+    .default(200)
+    .describe('Response status for fulfill.'),
+  headers: z
+    .record(z.string())
+    .optional()
+    .describe('Response headers for fulfill.'),
+  body: z
+    .string()
+    .optional()
+    .describe('Response body for fulfill.'),
+  bodyBase64: z
+    .boolean()
+    .default(false)
+    .describe('Body is already base64 encoded.'),
+  errorReason: z
+    .enum(NETWORK_ERROR_REASONS)
+    .default('Failed')
+    .describe('Network error reported for fail.'),
+  delayMs: z
+    .number()
+    .int()
+    .min(0)
+    .max(120_000)
+    .optional()
+    .describe('Hold matching requests this long before applying the action.'),
+  modify: z
+    .object({
+      url: z.string().url().optional(),
+      method: z.string().min(1).optional(),
+      headers: z.record(z.string()).optional(),
+      postData: z.string().optional(),
+    })
+    .optional()
+    .describe('Request overrides for modify (headers are merged with the originals).'),
+  times: z
+    .number()
+    .int()
+    .min(1)
+    .optional()
+    .describe('Stop matching after this many hits.'),
+} as const;
+
+const removeMockShape = {
+  ...targetArgShape,
+  id: z
+    .string()
+    .min(1)
+    .optional()
+    .describe('Mock id from network_add_mock. Omit with all=true to remove every mock.'),
+  all: z
+    .boolean()
+    .default(false)
+    .describe('Remove every mock.'),
+} as const;
+
+const exportHarShape = {
+  ...targetArgShape,
+  path: z
+    .string()
+    .min(1)
+    .optional()
+    .describe('File to write the HAR to. Omit to return it as an embedded resource.'),
+  includeBodies: z
+    .boolean()
+    .default(false)
+    .describe('Fetch request/response bodies (via getResponseBody) into the HAR.'),
+} as const;
+
+const importHarShape = {
+  ...targetArgShape,
+  path: z
+    .string()
+    .min(1)
+    .optional()
+    .describe('HAR file to load.'),
+  har: z
+    .string()
+    .min(1)
+    .optional()
+    .describe('Inline HAR JSON, as an alternative to path.'),
+  urlPattern: z
+    .string()
+    .min(1)
+    .optional()
+    .describe('Only replay entries whose URL matches this glob or /regex/.'),
+} as const;
+
+export interface NetworkToolOptions {
+  /** Start capturing on every session as soon as it connects. */
+  captureOnStart?: boolean;
+  maxEntries?: number;
+  maxBytes?: number;
+}
+
 export function registerNetworkTools(
   server: McpServer,
-  session: PageSession,
+  sessions: SessionRegistry,
+  options: NetworkToolOptions = {},
 ): void {
-  const recorder = new NetworkRecorder(session);
+  const recorderFor = perSession(
+    session =>
+      new NetworkRecorder(session, {
+        maxEntries: options.maxEntries,
+        maxBytes: options.maxBytes,
+      }),
+  );
+  if (options.captureOnStart) {
+    sessions.onSessionCreated(session => recorderFor(session).captureFromConnect());
+  }
+  const mockerFor = perSession(session => new NetworkMocker(session));
+  const conditionerFor = perSession(session => new NetworkConditioner(session));
+  const captureArgsSchema = z.object(captureShape);
+  type CaptureArgs = z.infer<typeof captureArgsSchema>;
+
+  const startCaptureArgsSchema = z.object(startCaptureShape);
+  type StartCaptureArgs = z.infer<typeof startCaptureArgsSchema>;
 
   server.registerTool('network_start_capture', {
     description: 'Begin capturing network activity for the current page.',
-  }, async () => {
-    await recorder.start();
+    inputSchema: startCaptureShape,
+  }, async ({target, clear, retainBodies, maxBodyBytes, mimeTypes}: StartCaptureArgs) => {
+    await recorderFor(sessions.get(target)).start({
+      clear,
+      retainBodies: retainBodies ? {maxBodyBytes, mimeTypes} : false,
+    });
     return {
       content: [
         {
           type: 'text',
-          text: 'Network capture started.',
+          text: retainBodies
+            ? `Network capture started. Retaining bodies up to ${maxBodyBytes} bytes.`
+            : 'Network capture started.',
         },
       ],
     };
@@ -63,7 +462,9 @@ export function registerNetworkTools(
 
   server.registerTool('network_stop_capture', {
     description: 'Stop capturing network activity.',
-  }, async () => {
+    inputSchema: captureShape,
+  }, async ({target}: CaptureArgs) => {
+    const recorder = recorderFor(sessions.get(target));
     await recorder.stop();
     const count = recorder.getRequests().length;
     return {
@@ -78,8 +479,9 @@ export function registerNetworkTools(
 
   server.registerTool('network_clear_capture', {
     description: 'Clear captured network requests.',
-  }, async () => {
-    recorder.clear();
+    inputSchema: captureShape,
+  }, async ({target}: CaptureArgs) => {
+    recorderFor(sessions.get(target)).clear();
     return {
       content: [
         {
@@ -103,13 +505,19 @@ export function registerNetworkTools(
       inputSchema: listRequestsShape,
     },
     async ({
+      target,
       limit,
       includeHeaders,
       methods,
       onlyFailed,
       resourceTypes,
+      includeInitiatorStack,
     }: ListArgs) => {
+      const session = sessions.get(target);
+      const recorder = recorderFor(session);
       const requests = recorder.getRequests();
+      const conditions =
+        formatCaptureStats(recorder.stats) + formatActiveConditions(conditionerFor(session));
       const filtered = requests.filter(request => {
         if (methods?.length && !methods.includes(request.method)) {
           return false;
@@ -128,75 +536,222 @@ export function registerNetworkTools(
           content: [
             {
               type: 'text',
-              text: 'No requests matched the specified filters.',
+              text: `${conditions}No requests matched the specified filters.`,
             },
           ],
         };
       }
-      const lines = selected.map(record => formatRequest(record, includeHeaders));
+      const navigations = recorder.getNavigations();
+      const lines: string[] = [];
+      let previousSequence = 0;
+      for (const record of selected) {
+        for (const navigation of navigations) {
+          if (navigation.sequence > previousSequence && navigation.sequence < record.sequence) {
+            lines.push(formatNavigation(navigation));
+          }
+        }
+        previousSequence = record.sequence;
+        lines.push(formatRequest(record, includeHeaders, includeInitiatorStack));
+      }
       return {
         content: [
           {
             type: 'text',
-            text: lines.join('\n\n'),
+            text: conditions + lines.join('\n\n'),
           },
         ],
       };
     },
   );
 
+  const waterfallArgsSchema = z.object(waterfallShape);
+  type WaterfallArgs = z.infer<typeof waterfallArgsSchema>;
+
   server.registerTool(
-    'network_get_request_body',
+    'network_waterfall',
     {
-      description: 'Retrieve the response or request body for a captured request.',
-      inputSchema: bodyShape,
+      description:
+        'Render captured requests as a text waterfall sorted by start time, with totals per domain and resource type.',
+      inputSchema: waterfallShape,
     },
-    async ({requestId, kind}: BodyArgs) => {
-      if (kind === 'request') {
-        const data = await recorder.getRequestPostData(requestId);
-        if (data == null) {
-          return {
-            isError: true,
-            content: [
-              {
-                type: 'text',
-                text: 'No request body available or request not found.',
-              },
-            ],
-          };
-        }
+    async ({target, limit, width, resourceTypes, domain}: WaterfallArgs) => {
+      const records = recorderFor(sessions.get(target))
+        .getRequests()
+        .filter(record => {
+          if (resourceTypes?.length && !resourceTypes.includes(record.resourceType ?? '')) {
+            return false;
+          }
+          if (domain && !hostOf(record.url).includes(domain)) {
+            return false;
+          }
+          return true;
+        })
+        .sort((a, b) => a.startTime - b.startTime)
+        .slice(0, limit);
+      if (!records.length) {
         return {
           content: [
             {
               type: 'text',
-              text: data,
+              text: 'No captured requests to draw.',
             },
           ],
         };
       }
+      return {
+        content: [
+          {
+            type: 'text',
+            text: renderWaterfall(records, width),
+          },
+        ],
+      };
+    },
+  );
 
-      const responseBody = await recorder.getResponseBody(requestId);
-      if (!responseBody) {
+  const socketFramesArgsSchema = z.object(socketFramesShape);
+  type SocketFramesArgs = z.infer<typeof socketFramesArgsSchema>;
+
+  server.registerTool(
+    'network_list_socket_frames',
+    {
+      description:
+        'List captured WebSocket and EventSource connections and their frames, filtered by connection, direction, or payload.',
+      inputSchema: socketFramesShape,
+    },
+    async ({
+      target,
+      connection,
+      search,
+      direction,
+      limit,
+      previewLength,
+    }: SocketFramesArgs) => {
+      let matcher: RegExp | undefined;
+      try {
+        matcher = search ? compileSearchPattern(search) : undefined;
+      } catch (error) {
         return {
           isError: true,
           content: [
             {
               type: 'text',
-              text: 'No response body available or request not found.',
+              text: error instanceof Error ? error.message : 'Invalid search pattern.',
             },
           ],
         };
       }
-      if (responseBody.base64Encoded) {
+      const recorder = recorderFor(sessions.get(target));
+      const connections = recorder.getSocketConnections().filter(socket =>
+        !connection ||
+        socket.requestId === connection ||
+        socket.url.toLowerCase().includes(connection.toLowerCase()),
+      );
+      if (!connections.length) {
         return {
           content: [
             {
               type: 'text',
-              text: '(Response body is base64 encoded; returning inline base64.)',
+              text: connection
+                ? `No WebSocket or EventSource connection matches ${connection}.`
+                : 'No WebSocket or EventSource connections captured.',
+            },
+          ],
+        };
+      }
+      const connectionIds = new Set(connections.map(socket => socket.requestId));
+      const frames = recorder
+        .getSocketFrames()
+        .filter(frame => {
+          if (!connectionIds.has(frame.requestId)) {
+            return false;
+          }
+          if (direction && frame.direction !== direction) {
+            return false;
+          }
+          return !matcher || matcher.test(frame.payload);
+        })
+        .slice(-limit)
+        .reverse();
+      const sections = [
+        `Connections (${connections.length}):`,
+        ...connections.map(formatSocketConnection),
+        '',
+        frames.length
+          ? `Frames (${frames.length}, newest first):`
+          : 'No frames matched the specified filters.',
+        ...frames.map(frame => formatSocketFrame(frame, previewLength)),
+      ];
+      return {
+        content: [
+          {
+            type: 'text',
+            text: sections.join('\n'),
+          },
+        ],
+      };
+    },
+  );
+
+  const searchArgsSchema = z.object(searchShape);
+  type SearchArgs = z.infer<typeof searchArgsSchema>;
+
+  server.registerTool(
+    'network_search',
+    {
+      description:
+        'Search captured URLs, headers, and retained bodies for text or a regex and return matching requests with snippets.',
+      inputSchema: searchShape,
+    },
+    async ({target, query, scopes, limit, maxSnippets, context}: SearchArgs) => {
+      let matcher: RegExp;
+      try {
+        matcher = compileSearchPattern(query);
+      } catch (error) {
+        return {
+          isError: true,
+          content: [
+            {
+              type: 'text',
+              text: error instanceof Error ? error.message : 'Invalid search pattern.',
             },
+          ],
+        };
+      }
+      const recorder = recorderFor(sessions.get(target));
+      const results: string[] = [];
+      let total = 0;
+      for (const record of recorder.getRequests()) {
+        const fields = searchableFields(record, scopes);
+        const hits: string[] = [];
+        for (const [label, text] of fields) {
+          const snippets = findSnippets(text, matcher, maxSnippets, context);
+          for (const snippet of snippets) {
+            hits.push(`  ${label}: ${snippet}`);
+          }
+        }
+        if (!hits.length) {
+          continue;
+        }
+        total++;
+        if (results.length < limit) {
+          results.push(
+            [`${record.requestId} | ${record.method} ${record.url}${record.status ? ` (${record.status})` : ''}`, ...hits].join('\n'),
+          );
+        }
+      }
+      const notes: string[] = [];
+      if (scopes.some(scope => scope.endsWith('Body')) && !recorder.bodyRetention) {
+        notes.push(
+          'Bodies are not being retained; restart capture with retainBodies to search them.',
+        );
+      }
+      if (!results.length) {
+        return {
+          content: [
             {
               type: 'text',
-              text: responseBody.body,
+              text: [`No captured requests match ${query}.`, ...notes].join('\n'),
             },
           ],
         };
@@ -205,41 +760,865 @@ export function registerNetworkTools(
         content: [
           {
             type: 'text',
-            text: responseBody.body,
+            text: [
+              `${total} request${total === 1 ? '' : 's'} match ${query}${total > results.length ? ` (showing ${results.length})` : ''}.`,
+              ...notes,
+              '',
+              results.join('\n\n'),
+            ].join('\n'),
           },
         ],
       };
     },
   );
-}
-
-function formatRequest(record: NetworkRequestRecord, includeHeaders: boolean): string {
-  const status = record.status ? `${record.status} ${record.statusText ?? ''}`.trim() : record.errorText ?? 'pending';
-  const duration = record.startTime && record.endTime
-    ? ` (${((record.endTime - record.startTime) * 1000).toFixed(0)} ms)`
-    : '';
-  const lines = [
-    `${record.requestId} | ${record.method} ${record.url}`,
-    `status: ${status}${duration}`,
-    record.resourceType ? `type: ${record.resourceType}` : undefined,
-    record.encodedDataLength !== undefined ? `size: ${record.encodedDataLength} bytes` : undefined,
-    record.fromCache ? 'from cache' : undefined,
-  ].filter(Boolean);
-
-  if (includeHeaders) {
-    if (record.requestHeaders && Object.keys(record.requestHeaders).length) {
-      lines.push('request headers:', formatHeaders(record.requestHeaders));
-    }
-    if (record.responseHeaders && Object.keys(record.responseHeaders).length) {
-      lines.push('response headers:', formatHeaders(record.responseHeaders));
-    }
-  }
 
-  return lines.join('\n');
-}
+  const replayArgsSchema = z.object(replayShape);
+  type ReplayArgs = z.infer<typeof replayArgsSchema>;
 
-function formatHeaders(headers: Record<string, unknown>): string {
-  return Object.entries(headers)
-    .map(([key, value]) => `  ${key}: ${String(value)}`)
-    .join('\n');
+  server.registerTool(
+    'network_replay_request',
+    {
+      description:
+        'Resend a captured request from inside the page (same method, headers, and body; optional overrides) and return the new response.',
+      inputSchema: replayShape,
+    },
+    async ({
+      target,
+      requestId,
+      url,
+      method,
+      headers,
+      removeHeaders,
+      body,
+      maxBodyChars,
+      timeoutMs,
+    }: ReplayArgs) => {
+      try {
+        const result = await recorderFor(sessions.get(target)).replay(requestId, {
+          url,
+          method,
+          headers,
+          removeHeaders,
+          body,
+          maxBodyChars,
+          timeoutMs,
+        });
+        const lines = [
+          `Replayed ${requestId} as ${result.record.requestId}: ${result.record.method} ${result.record.url}`,
+          `status: ${result.status}${result.statusText ? ` ${result.statusText}` : ''} in ${Math.round(result.durationMs)} ms`,
+        ];
+        if (result.skippedHeaders.length) {
+          lines.push(`not resent (browser-controlled): ${result.skippedHeaders.join(', ')}`);
+        }
+        lines.push('response headers:', formatHeaders(result.headers));
+        lines.push(
+          `body (${result.bodyLength} chars${result.truncated ? `, showing ${result.body.length}` : ''}):`,
+          result.body,
+        );
+        return {
+          content: [
+            {
+              type: 'text',
+              text: lines.join('\n'),
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          isError: true,
+          content: [
+            {
+              type: 'text',
+              text:
+                error instanceof Error
+                  ? `Failed to replay request: ${error.message}`
+                  : 'Failed to replay request.',
+            },
+          ],
+        };
+      }
+    },
+  );
+
+  server.registerTool(
+    'network_get_request_body',
+    {
+      description: 'Retrieve the response or request body for a captured request.',
+      inputSchema: bodyShape,
+    },
+    async ({target, requestId, kind}: BodyArgs) => {
+      const recorder = recorderFor(sessions.get(target));
+      if (kind === 'request') {
+        const data = await recorder.getRequestPostData(requestId);
+        if (data == null) {
+          return {
+            isError: true,
+            content: [
+              {
+                type: 'text',
+                text: 'No request body available or request not found.',
+              },
+            ],
+          };
+        }
+        return {
+          content: [
+            {
+              type: 'text',
+              text: data,
+            },
+          ],
+        };
+      }
+
+      const responseBody = await recorder.getResponseBody(requestId);
+      if (!responseBody) {
+        return {
+          isError: true,
+          content: [
+            {
+              type: 'text',
+              text: 'No response body available or request not found.',
+            },
+          ],
+        };
+      }
+      if (responseBody.base64Encoded) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: '(Response body is base64 encoded; returning inline base64.)',
+            },
+            {
+              type: 'text',
+              text: responseBody.body,
+            },
+          ],
+        };
+      }
+      return {
+        content: [
+          {
+            type: 'text',
+            text: responseBody.body,
+          },
+        ],
+      };
+    },
+  );
+
+  const emulateArgsSchema = z.object(emulateConditionsShape);
+  type EmulateArgs = z.infer<typeof emulateArgsSchema>;
+
+  server.registerTool(
+    'network_emulate_conditions',
+    {
+      description:
+        'Throttle the page network (latency, throughput, offline) from a preset such as 3G or flaky, or custom values.',
+      inputSchema: emulateConditionsShape,
+    },
+    async ({
+      target,
+      preset,
+      offline,
+      latencyMs,
+      downloadKbps,
+      uploadKbps,
+      connectionType,
+      reset,
+    }: EmulateArgs) => {
+      try {
+        const conditioner = conditionerFor(sessions.get(target));
+        if (reset) {
+          await conditioner.reset();
+          return {
+            content: [
+              {
+                type: 'text',
+                text: 'Network conditions reset.',
+              },
+            ],
+          };
+        }
+        const base = preset ? NETWORK_CONDITION_PRESETS[preset] : undefined;
+        const conditions: NetworkConditions = {
+          offline: offline ?? base?.offline ?? false,
+          latencyMs: latencyMs ?? base?.latencyMs ?? 0,
+          downloadKbps: downloadKbps ?? base?.downloadKbps ?? 0,
+          uploadKbps: uploadKbps ?? base?.uploadKbps ?? 0,
+          connectionType: connectionType ?? base?.connectionType,
+          dropout: base && 'dropout' in base ? {...base.dropout} : undefined,
+          preset,
+        };
+        await conditioner.emulate(conditions);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Network conditions set: ${describeConditions(conditions)}.`,
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          isError: true,
+          content: [
+            {
+              type: 'text',
+              text:
+                error instanceof Error
+                  ? `Failed to emulate network conditions: ${error.message}`
+                  : 'Failed to emulate network conditions.',
+            },
+          ],
+        };
+      }
+    },
+  );
+
+  const blockUrlsArgsSchema = z.object(blockUrlsShape);
+  type BlockUrlsArgs = z.infer<typeof blockUrlsArgsSchema>;
+
+  server.registerTool(
+    'network_block_urls',
+    {
+      description: 'Block requests whose URL matches any of the given patterns.',
+      inputSchema: blockUrlsShape,
+    },
+    async ({target, patterns, append}: BlockUrlsArgs) => {
+      try {
+        const conditioner = conditionerFor(sessions.get(target));
+        const next = append
+          ? Array.from(new Set([...conditioner.blockedUrls, ...patterns]))
+          : patterns;
+        await conditioner.blockUrls(next);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: next.length
+                ? `Blocking ${next.length} URL pattern${next.length === 1 ? '' : 's'}:\n${next.map(pattern => `- ${pattern}`).join('\n')}`
+                : 'URL blocking cleared.',
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          isError: true,
+          content: [
+            {
+              type: 'text',
+              text:
+                error instanceof Error
+                  ? `Failed to block URLs: ${error.message}`
+                  : 'Failed to block URLs.',
+            },
+          ],
+        };
+      }
+    },
+  );
+
+  const addMockArgsSchema = z.object(addMockShape);
+  type AddMockArgs = z.infer<typeof addMockArgsSchema>;
+
+  const removeMockArgsSchema = z.object(removeMockShape);
+  type RemoveMockArgs = z.infer<typeof removeMockArgsSchema>;
+
+  const exportHarArgsSchema = z.object(exportHarShape);
+  type ExportHarArgs = z.infer<typeof exportHarArgsSchema>;
+
+  const importHarArgsSchema = z.object(importHarShape);
+  type ImportHarArgs = z.infer<typeof importHarArgsSchema>;
+
+  server.registerTool(
+    'network_export_har',
+    {
+      description: 'Export captured network requests as HAR 1.2, to a file or as an embedded resource.',
+      inputSchema: exportHarShape,
+    },
+    async ({target, path, includeBodies}: ExportHarArgs) => {
+      try {
+        const recorder = recorderFor(sessions.get(target));
+        const records = recorder.getRequests();
+        const bodies = new Map<string, HarBodies>();
+        if (includeBodies) {
+          for (const record of records) {
+            bodies.set(record.requestId, {
+              requestBody: record.requestBodySize
+                ? await recorder.getRequestPostData(record.requestId)
+                : undefined,
+              responseBody: record.status
+                ? await recorder.getResponseBody(record.requestId)
+                : undefined,
+            });
+          }
+        }
+        const har = buildHar(records, bodies, {
+          name: pkg.name ?? 'webos-devtools-mcp',
+          version: pkg.version ?? '0.0.0',
+        });
+        const text = JSON.stringify(har, null, 2);
+        const count = records.length;
+        if (path) {
+          const filePath = resolve(path);
+          await writeFile(filePath, text, 'utf8');
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `Wrote ${count} request${count === 1 ? '' : 's'} to ${filePath}.`,
+              },
+            ],
+          };
+        }
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Exported ${count} request${count === 1 ? '' : 's'} as HAR.`,
+            },
+            {
+              type: 'resource',
+              resource: {
+                uri: `har://export/${Date.now()}.har`,
+                mimeType: 'application/json',
+                text,
+              },
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          isError: true,
+          content: [
+            {
+              type: 'text',
+              text:
+                error instanceof Error
+                  ? `Failed to export HAR: ${error.message}`
+                  : 'Failed to export HAR.',
+            },
+          ],
+        };
+      }
+    },
+  );
+
+  server.registerTool(
+    'network_import_har',
+    {
+      description:
+        'Load a HAR capture and serve its recorded responses as mocks for matching requests.',
+      inputSchema: importHarShape,
+    },
+    async ({target, path, har, urlPattern}: ImportHarArgs) => {
+      if (!path && !har) {
+        return {
+          isError: true,
+          content: [
+            {
+              type: 'text',
+              text: 'Provide a HAR file path or inline har JSON.',
+            },
+          ],
+        };
+      }
+      try {
+        const text = har ?? (await readFile(resolve(path!), 'utf8'));
+        const entries = parseHar(text);
+        const source = path ? `har:${basename(path)}` : 'har:inline';
+        const rules = await mockerFor(sessions.get(target)).replayHar(entries, {
+          source,
+          urlPattern,
+        });
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Registered ${rules.length} replay mock${rules.length === 1 ? '' : 's'} from ${entries.length} HAR entr${entries.length === 1 ? 'y' : 'ies'} (${source}). Use network_list_mocks to inspect hits.`,
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          isError: true,
+          content: [
+            {
+              type: 'text',
+              text:
+                error instanceof Error
+                  ? `Failed to import HAR: ${error.message}`
+                  : 'Failed to import HAR.',
+            },
+          ],
+        };
+      }
+    },
+  );
+
+  server.registerTool(
+    'network_add_mock',
+    {
+      description:
+        'Intercept matching requests (Fetch domain) and fulfill, fail, delay, or modify them.',
+      inputSchema: addMockShape,
+    },
+    async ({target, ...args}: AddMockArgs) => {
+      if (args.action === 'modify' && !args.modify) {
+        return {
+          isError: true,
+          content: [
+            {
+              type: 'text',
+              text: 'Provide modify overrides when action is "modify".',
+            },
+          ],
+        };
+      }
+      try {
+        const definition: MockDefinition = {
+          urlPattern: args.urlPattern,
+          method: args.method,
+          resourceTypes: args.resourceTypes,
+          action: args.action,
+          status: args.status,
+          headers: args.headers,
+          body: args.body,
+          bodyBase64: args.bodyBase64,
+          errorReason: args.errorReason,
+          delayMs: args.delayMs,
+          modify: args.modify,
+          times: args.times,
+        };
+        const rule = await mockerFor(sessions.get(target)).add(definition);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Added ${rule.id}: ${formatMock(rule)}`,
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          isError: true,
+          content: [
+            {
+              type: 'text',
+              text:
+                error instanceof Error
+                  ? `Failed to add mock: ${error.message}`
+                  : 'Failed to add mock.',
+            },
+          ],
+        };
+      }
+    },
+  );
+
+  server.registerTool(
+    'network_remove_mock',
+    {
+      description: 'Remove a request mock by id, or all mocks.',
+      inputSchema: removeMockShape,
+    },
+    async ({target, id, all}: RemoveMockArgs) => {
+      const mocker = mockerFor(sessions.get(target));
+      if (all) {
+        const count = await mocker.clear();
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Removed ${count} mock${count === 1 ? '' : 's'}.`,
+            },
+          ],
+        };
+      }
+      if (!id) {
+        return {
+          isError: true,
+          content: [
+            {
+              type: 'text',
+              text: 'Provide a mock id or set all=true.',
+            },
+          ],
+        };
+      }
+      const removed = await mocker.remove(id);
+      return {
+        isError: !removed,
+        content: [
+          {
+            type: 'text',
+            text: removed ? `Removed ${id}.` : `No mock with id ${id}.`,
+          },
+        ],
+      };
+    },
+  );
+
+  server.registerTool(
+    'network_list_mocks',
+    {
+      description: 'List active request mocks with their hit counts.',
+      inputSchema: captureShape,
+    },
+    async ({target}: CaptureArgs) => {
+      const mocks = mockerFor(sessions.get(target)).list();
+      if (!mocks.length) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: 'No mocks configured.',
+            },
+          ],
+        };
+      }
+      return {
+        content: [
+          {
+            type: 'text',
+            text: mocks.map(rule => `${rule.id} | ${formatMock(rule)}`).join('\n\n'),
+          },
+        ],
+      };
+    },
+  );
+}
+
+function formatRequest(
+  record: NetworkRequestRecord,
+  includeHeaders: boolean,
+  includeInitiatorStack = false,
+): string {
+  const status = record.status ? `${record.status} ${record.statusText ?? ''}`.trim() : record.errorText ?? 'pending';
+  const duration = record.startTime && record.endTime
+    ? ` (${((record.endTime - record.startTime) * 1000).toFixed(0)} ms)`
+    : '';
+  const lines = [
+    `${record.requestId} | ${record.method} ${record.url}`,
+    `status: ${status}${duration}`,
+    record.resourceType ? `type: ${record.resourceType}` : undefined,
+    record.encodedDataLength !== undefined ? `size: ${record.encodedDataLength} bytes` : undefined,
+    record.fromCache ? 'from cache' : undefined,
+    record.timing ? `timing: ${formatTiming(record.timing)}` : undefined,
+    record.initiator ? `initiator: ${formatInitiator(record.initiator)}` : undefined,
+    record.replayOf ? `replay of ${record.replayOf}` : undefined,
+    record.replayedAs?.length ? `replayed as ${record.replayedAs.join(', ')}` : undefined,
+  ].filter(Boolean);
+
+  if (record.redirects?.length) {
+    lines.push('redirects:');
+    for (const hop of record.redirects) {
+      lines.push(
+        `  ${hop.status} ${hop.method} ${hop.url} (${((hop.endTime - hop.startTime) * 1000).toFixed(0)} ms)`,
+      );
+    }
+    lines.push(`  → ${record.url}`);
+  }
+
+  if (includeInitiatorStack && record.initiator?.stack?.length) {
+    lines.push('initiator stack:');
+    for (const frame of record.initiator.stack) {
+      lines.push(
+        `  at ${frame.functionName || '<anonymous>'} (${frame.url}:${frame.lineNumber + 1}:${frame.columnNumber + 1})`,
+      );
+    }
+  }
+
+  if (includeHeaders) {
+    if (record.requestHeaders && Object.keys(record.requestHeaders).length) {
+      lines.push('request headers:', formatHeaders(record.requestHeaders));
+    }
+    if (record.responseHeaders && Object.keys(record.responseHeaders).length) {
+      lines.push('response headers:', formatHeaders(record.responseHeaders));
+    }
+  }
+
+  return lines.join('\n');
+}
+
+function formatSocketConnection(socket: NetworkSocketConnection): string {
+  const state = socket.errorText
+    ? `error: ${socket.errorText}`
+    : socket.closedAt !== undefined
+      ? 'closed'
+      : 'open';
+  return `- ${socket.requestId} [${socket.kind}] ${socket.url} (${state}, ${socket.frameCount} frame${socket.frameCount === 1 ? '' : 's'})`;
+}
+
+function formatSocketFrame(frame: NetworkSocketFrame, previewLength: number): string {
+  const arrow = frame.direction === 'sent' ? '→' : '←';
+  const kind =
+    frame.kind === 'eventsource'
+      ? `event ${frame.eventName ?? 'message'}${frame.eventId ? ` #${frame.eventId}` : ''}`
+      : describeOpcode(frame.opcode);
+  const preview =
+    frame.payload.length > previewLength
+      ? `${frame.payload.slice(0, previewLength)}…`
+      : frame.payload;
+  const size = `${frame.payloadLength} char${frame.payloadLength === 1 ? '' : 's'}${frame.truncated ? ', truncated' : ''}`;
+  return `#${frame.id} ${frame.timestamp.toFixed(3)} ${arrow} ${frame.requestId} ${kind} (${size}): ${preview}`;
+}
+
+function describeOpcode(opcode: number | undefined): string {
+  switch (opcode) {
+    case 1:
+      return 'text';
+    case 2:
+      return 'binary (base64)';
+    case 8:
+      return 'close';
+    case 9:
+      return 'ping';
+    case 10:
+      return 'pong';
+    default:
+      return `opcode ${opcode}`;
+  }
+}
+
+function searchableFields(
+  record: NetworkRequestRecord,
+  scopes: Array<'url' | 'headers' | 'requestBody' | 'responseBody'>,
+): Array<[string, string]> {
+  const fields: Array<[string, string]> = [];
+  if (scopes.includes('url')) {
+    fields.push(['url', record.url]);
+  }
+  if (scopes.includes('headers')) {
+    for (const [label, headers] of [
+      ['request header', record.requestHeaders],
+      ['response header', record.responseHeaders],
+    ] as const) {
+      for (const [name, value] of Object.entries(headers ?? {})) {
+        fields.push([label, `${name}: ${String(value)}`]);
+      }
+    }
+  }
+  if (scopes.includes('requestBody') && record.requestBody) {
+    fields.push(['request body', record.requestBody]);
+  }
+  if (scopes.includes('responseBody') && record.responseBody) {
+    const {body, base64Encoded} = record.responseBody;
+    fields.push(['response body', base64Encoded ? Buffer.from(body, 'base64').toString('utf8') : body]);
+  }
+  return fields;
+}
+
+function findSnippets(
+  text: string,
+  matcher: RegExp,
+  maxSnippets: number,
+  context: number,
+): string[] {
+  const global = new RegExp(matcher.source, `${matcher.flags}g`);
+  const snippets: string[] = [];
+  for (const match of text.matchAll(global)) {
+    if (snippets.length >= maxSnippets) {
+      break;
+    }
+    const start = Math.max(0, match.index - context);
+    const end = Math.min(text.length, match.index + match[0].length + context);
+    const snippet = text.slice(start, end).replace(/\s+/g, ' ');
+    snippets.push(`${start > 0 ? '…' : ''}${snippet}${end < text.length ? '…' : ''}`);
+    if (!match[0].length) {
+      break;
+    }
+  }
+  return snippets;
+}
+
+function formatCaptureStats(stats: NetworkCaptureStats): string {
+  const parts = [
+    `Capture ${stats.capturing ? 'running' : 'stopped'}`,
+    `${stats.entries}/${stats.maxEntries} requests`,
+    `~${formatBytes(stats.bytes)}/${formatBytes(stats.maxBytes)}`,
+  ];
+  if (stats.evicted) {
+    parts.push(`${stats.evicted} oldest evicted`);
+  }
+  return `${parts.join(', ')}\n`;
+}
+
+function formatNavigation(navigation: NetworkNavigation): string {
+  return `── navigation to ${navigation.url} at ${navigation.timestamp.toISOString()} ──`;
+}
+
+function formatActiveConditions(conditioner: NetworkConditioner): string {
+  const lines: string[] = [];
+  if (conditioner.conditions) {
+    lines.push(
+      `Network conditions: ${describeConditions(conditioner.conditions)}${conditioner.droppedOut ? ' (currently in a dropout)' : ''}`,
+    );
+  }
+  if (conditioner.blockedUrls.length) {
+    lines.push(`Blocked URLs: ${conditioner.blockedUrls.join(', ')}`);
+  }
+  return `${lines.length ? `${lines.join('\n')}\n` : ''}\n`;
+}
+
+function formatTiming(timing: NetworkTimingPhases): string {
+  const phases: Array<[string, number | undefined]> = [
+    ['queued', timing.queued],
+    ['dns', timing.dns],
+    ['connect', timing.connect],
+    ['ssl', timing.ssl],
+    ['send', timing.send],
+    ['ttfb', timing.wait],
+    ['receive', timing.receive],
+  ];
+  return phases
+    .filter(([, value]) => value !== undefined)
+    .map(([name, value]) => `${name} ${value!.toFixed(value! < 10 ? 1 : 0)}`)
+    .join(' | ') + ' ms';
+}
+
+function formatInitiator(initiator: NetworkInitiator): string {
+  const location = initiator.url
+    ? ` ${initiator.url}${initiator.lineNumber !== undefined ? `:${initiator.lineNumber + 1}` : ''}`
+    : '';
+  return `${initiator.type}${location}`;
+}
+
+function renderWaterfall(records: NetworkRequestRecord[], width: number): string {
+  const sorted = [...records].sort((a, b) => a.startTime - b.startTime);
+  const origin = sorted[0]!.startTime;
+  const finish = Math.max(
+    ...sorted.map(record => record.endTime ?? record.timing?.headersReceivedAt ?? record.startTime),
+  );
+  const span = Math.max(finish - origin, 0.001);
+  const scale = width / span;
+  const column = (time: number) => Math.min(width, Math.max(0, Math.round((time - origin) * scale)));
+
+  const lines = [
+    `Timeline ${(span * 1000).toFixed(0)} ms across ${width} columns (░ waiting, █ downloading, ? unfinished)`,
+  ];
+  for (const record of sorted) {
+    const start = column(record.startTime);
+    const headers = record.timing?.headersReceivedAt;
+    const end = record.endTime !== undefined ? column(record.endTime) : undefined;
+    let bar: string;
+    if (end === undefined) {
+      bar = ' '.repeat(start) + '?';
+    } else {
+      const split = headers !== undefined ? Math.min(end, Math.max(start, column(headers))) : end;
+      const waiting = Math.max(0, split - start);
+      const downloading = Math.max(end - split, waiting === 0 ? 1 : 0);
+      bar = ' '.repeat(start) + '░'.repeat(waiting) + '█'.repeat(downloading);
+    }
+    const duration = record.endTime !== undefined
+      ? `${((record.endTime - record.startTime) * 1000).toFixed(0)} ms`
+      : 'pending';
+    const status = record.status ?? (record.errorText ? 'ERR' : '…');
+    lines.push(
+      `|${bar.padEnd(width + 1).slice(0, width + 1)}| ${duration.padStart(8)} ${String(status).padStart(3)} ${record.method} ${shortenUrl(record.url)}`,
+    );
+  }
+
+  lines.push('', 'By domain:', ...formatTotals(groupTotals(sorted, record => hostOf(record.url))));
+  lines.push('', 'By resource type:', ...formatTotals(groupTotals(sorted, record => record.resourceType ?? 'Other')));
+  return lines.join('\n');
+}
+
+interface WaterfallTotals {
+  key: string;
+  count: number;
+  bytes: number;
+  totalMs: number;
+  firstStart: number;
+  lastEnd: number;
+}
+
+function groupTotals(
+  records: NetworkRequestRecord[],
+  keyOf: (record: NetworkRequestRecord) => string,
+): WaterfallTotals[] {
+  const totals = new Map<string, WaterfallTotals>();
+  for (const record of records) {
+    const key = keyOf(record);
+    const end = record.endTime ?? record.startTime;
+    const entry = totals.get(key) ?? {
+      key,
+      count: 0,
+      bytes: 0,
+      totalMs: 0,
+      firstStart: record.startTime,
+      lastEnd: end,
+    };
+    entry.count++;
+    entry.bytes += record.encodedDataLength ?? 0;
+    entry.totalMs += Math.max(0, (end - record.startTime) * 1000);
+    entry.firstStart = Math.min(entry.firstStart, record.startTime);
+    entry.lastEnd = Math.max(entry.lastEnd, end);
+    totals.set(key, entry);
+  }
+  return Array.from(totals.values()).sort((a, b) => b.totalMs - a.totalMs);
+}
+
+function formatTotals(totals: WaterfallTotals[]): string[] {
+  return totals.map(total =>
+    `  ${total.key}: ${total.count} request${total.count === 1 ? '' : 's'}, ${formatBytes(total.bytes)}, ${total.totalMs.toFixed(0)} ms total, ${((total.lastEnd - total.firstStart) * 1000).toFixed(0)} ms span`,
+  );
+}
+
+function hostOf(url: string): string {
+  try {
+    return new URL(url).host || url.split(':')[0] || url;
+  } catch {
+    return url.split(':')[0] || url;
+  }
+}
+
+function shortenUrl(url: string, max = 80): string {
+  return url.length > max ? `${url.slice(0, max - 1)}…` : url;
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes >= 1024 * 1024) {
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  }
+  if (bytes >= 1024) {
+    return `${(bytes / 1024).toFixed(1)} KB`;
+  }
+  return `${bytes} B`;
+}
+
+function formatHeaders(headers: Record<string, unknown>): string {
+  return Object.entries(headers)
+    .map(([key, value]) => `  ${key}: ${String(value)}`)
+    .join('\n');
+}
+
+function formatMock(rule: MockRule): string {
+  const matcher = [
+    rule.method ?? '*',
+    rule.urlPattern,
+    rule.resourceTypes?.length ? `[${rule.resourceTypes.join(', ')}]` : undefined,
+  ].filter(Boolean).join(' ');
+  let effect: string;
+  switch (rule.action) {
+    case 'fulfill':
+      effect = `fulfill ${rule.status ?? 200}${rule.body ? ` (${rule.body.length} byte body)` : ''}`;
+      break;
+    case 'fail':
+      effect = `fail ${rule.errorReason ?? 'Failed'}`;
+      break;
+    case 'modify':
+      effect = `modify ${Object.keys(rule.modify ?? {}).join(', ') || 'nothing'}`;
+      break;
+    case 'delay':
+      effect = 'delay';
+      break;
+  }
+  const lines = [
+    `${matcher} → ${effect}${rule.delayMs ? ` after ${rule.delayMs} ms` : ''}${rule.source ? ` (${rule.source})` : ''}`,
+    `hits: ${rule.hits}${rule.times !== undefined ? ` / ${rule.times}` : ''}${rule.lastHitAt ? ` (last ${rule.lastHitAt.toISOString()}${rule.lastHitUrl ? ` ${rule.lastHitUrl}` : ''})` : ''}`,
+  ];
+  return lines.join('\n');
 }
@@ -3,9 +3,11 @@ import {z} from 'zod';
 import type {McpServer} from '@modelcontextprotocol/sdk/server/mcp.js';
 
 import {OverlayManager} from '../overlayManager.js';
-import type {PageSession} from '../pageSession.js';
+import {perSession, type SessionRegistry} from '../sessionRegistry.js';
+import {targetArgShape} from './targetTools.js';
 
 const highlightShape = {
+  ...targetArgShape,
   selector: z
     .string()
     .min(1)
@@ -39,11 +41,15 @@ const highlightShape = {
     .describe('RGBA border color (0-255 each component).'),
 } as const;
 
+const targetOnlyShape = {
+  ...targetArgShape,
+} as const;
+
 export function registerOverlayTools(
   server: McpServer,
-  session: PageSession,
+  sessions: SessionRegistry,
 ): void {
-  const overlay = new OverlayManager(session);
+  const overlayFor = perSession(session => new OverlayManager(session));
   const highlightArgsSchema = z.object(highlightShape);
   type HighlightArgs = z.infer<typeof highlightArgsSchema>;
 
@@ -54,6 +60,7 @@ export function registerOverlayTools(
       inputSchema: highlightShape,
     },
     async ({
+      target,
       selector,
       durationMs,
       includeMargin,
@@ -75,6 +82,7 @@ export function registerOverlayTools(
       }
 
       try {
+        const overlay = overlayFor(sessions.get(target));
         const {screenshot} = await overlay.highlight({
           selector,
           durationMs,
@@ -124,10 +132,11 @@ export function registerOverlayTools(
     'overlay_highlight_focused',
     {
       description: 'Highlight the currently focused element (document.activeElement).',
+      inputSchema: targetOnlyShape,
     },
-    async (): Promise<any> => {
+    async ({target}: {target?: string}): Promise<any> => {
       try {
-        const {screenshot} = await overlay.highlightFocused();
+        const {screenshot} = await overlayFor(sessions.get(target)).highlightFocused();
         const content: Array<
           | {type: 'text'; text: string}
           | {type: 'image'; data: string; mimeType: string}
@@ -168,9 +177,10 @@ export function registerOverlayTools(
     'overlay_hide',
     {
       description: 'Hide any active overlay highlight immediately.',
+      inputSchema: targetOnlyShape,
     },
-    async (): Promise<any> => {
-      await overlay.hide();
+    async ({target}: {target?: string}): Promise<any> => {
+      await overlayFor(sessions.get(target)).hide();
       return {
         content: [
           {
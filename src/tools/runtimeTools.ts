@@ -0,0 +1,198 @@
+import {z} from 'zod';
+
+import type {McpServer} from '@modelcontextprotocol/sdk/server/mcp.js';
+
+import {
+  DEFAULT_OBJECT_GROUP,
+  type ObjectProperties,
+  type PropertySummary,
+} from '../pageSession.js';
+import type {SessionRegistry} from '../sessionRegistry.js';
+import {targetArgShape} from './targetTools.js';
+
+const getPropertiesShape = {
+  ...targetArgShape,
+  objectId: z
+    .string()
+    .min(1, 'Provide a handle from evaluate_expression or a previous runtime_get_properties call.'),
+  ownProperties: z
+    .boolean()
+    .default(true)
+    .describe('Only list own properties (false includes inherited properties inline).'),
+  accessorPropertiesOnly: z
+    .boolean()
+    .default(false)
+    .describe('List only getters/setters.'),
+  prototypeDepth: z
+    .number()
+    .int()
+    .min(0)
+    .max(5)
+    .default(0)
+    .describe('Also walk this many levels of the [[Prototype]] chain.'),
+  includeInternal: z
+    .boolean()
+    .default(true)
+    .describe('Include internal ([[...]]) and private (#...) properties.'),
+  maxProperties: z
+    .number()
+    .int()
+    .min(1)
+    .max(500)
+    .default(100)
+    .describe('Maximum properties to list per object.'),
+} as const;
+
+const releaseShape = {
+  ...targetArgShape,
+  objectGroup: z
+    .string()
+    .min(1)
+    .default(DEFAULT_OBJECT_GROUP)
+    .describe('Object group to release; every handle in it becomes invalid.'),
+} as const;
+
+const getPropertiesArgsSchema = z.object(getPropertiesShape);
+type GetPropertiesArgs = z.infer<typeof getPropertiesArgsSchema>;
+
+const releaseArgsSchema = z.object(releaseShape);
+type ReleaseArgs = z.infer<typeof releaseArgsSchema>;
+
+export function registerRuntimeTools(
+  server: McpServer,
+  sessions: SessionRegistry,
+): void {
+  server.registerTool(
+    'runtime_get_properties',
+    {
+      description:
+        'Expand a remote object handle: list properties, getters, and optionally the prototype chain.',
+      inputSchema: getPropertiesShape,
+    },
+    async ({
+      target,
+      objectId,
+      ownProperties,
+      accessorPropertiesOnly,
+      prototypeDepth,
+      includeInternal,
+      maxProperties,
+    }: GetPropertiesArgs) => {
+      try {
+        const session = sessions.get(target);
+        const sections: string[] = [];
+        let currentId: string | undefined = objectId;
+        for (let level = 0; currentId && level <= prototypeDepth; level++) {
+          const result = await session.getProperties(currentId, {
+            ownProperties,
+            accessorPropertiesOnly,
+          });
+          const heading =
+            level === 0 ? `Object ${currentId}` : `[[Prototype]] level ${level} (${currentId})`;
+          sections.push(
+            formatProperties(heading, result, {includeInternal, maxProperties}),
+          );
+          currentId = result.prototypeObjectId;
+        }
+        return {
+          content: [
+            {
+              type: 'text',
+              text: sections.join('\n\n'),
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          isError: true,
+          content: [
+            {
+              type: 'text',
+              text:
+                error instanceof Error
+                  ? `Failed to get properties: ${error.message}`
+                  : 'Failed to get properties.',
+            },
+          ],
+        };
+      }
+    },
+  );
+
+  server.registerTool(
+    'runtime_release_object_group',
+    {
+      description: 'Release remote object handles held by an object group.',
+      inputSchema: releaseShape,
+    },
+    async ({target, objectGroup}: ReleaseArgs) => {
+      try {
+        await sessions.get(target).releaseObjectGroup(objectGroup);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Released object group ${objectGroup}.`,
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          isError: true,
+          content: [
+            {
+              type: 'text',
+              text:
+                error instanceof Error
+                  ? `Failed to release object group: ${error.message}`
+                  : 'Failed to release object group.',
+            },
+          ],
+        };
+      }
+    },
+  );
+}
+
+function formatProperties(
+  heading: string,
+  result: ObjectProperties,
+  options: {includeInternal: boolean; maxProperties: number},
+): string {
+  const lines = [heading];
+  const properties = result.properties.filter(property => property.name !== '__proto__');
+  const limited = properties.slice(0, options.maxProperties);
+  if (!limited.length) {
+    lines.push('  (no properties)');
+  }
+  for (const property of limited) {
+    lines.push(`  ${formatProperty(property)}`);
+  }
+  if (properties.length > limited.length) {
+    lines.push(`  … ${properties.length - limited.length} more propert${properties.length - limited.length === 1 ? 'y' : 'ies'} truncated.`);
+  }
+  if (options.includeInternal && result.internalProperties.length) {
+    lines.push('  internal:');
+    for (const property of result.internalProperties) {
+      lines.push(`    ${formatProperty(property)}`);
+    }
+  }
+  return lines.join('\n');
+}
+
+export function formatProperty(property: PropertySummary): string {
+  const accessor = [
+    property.getter ? 'get' : undefined,
+    property.setter ? 'set' : undefined,
+  ].filter(Boolean);
+  const flags = [
+    accessor.length ? `[${accessor.join('/')}]` : undefined,
+    property.isOwn === false ? 'inherited' : undefined,
+    property.enumerable === false ? 'non-enumerable' : undefined,
+    property.wasThrown ? 'threw' : undefined,
+  ].filter(Boolean);
+  const value = accessor.length && property.type === 'undefined' ? '(...)' : property.value;
+  const type = property.subtype ? `${property.type}/${property.subtype}` : property.type;
+  const handle = property.objectId ? ` → ${property.objectId}` : '';
+  return `${property.name}: ${value} <${type}>${flags.length ? ` ${flags.join(' ')}` : ''}${handle}`;
+}
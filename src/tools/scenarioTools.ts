@@ -0,0 +1,278 @@
+import {z} from 'zod';
+import {parse as parseYaml} from 'yaml';
+
+import type {McpServer} from '@modelcontextprotocol/sdk/server/mcp.js';
+
+import type {PageLogEntry} from '../pageSession.js';
+import {KEY_MAP} from '../remoteKeys.js';
+import {
+  ScenarioRunner,
+  type ScenarioReport,
+  type ScenarioStep,
+  type ScenarioStepReport,
+} from '../scenarioRunner.js';
+import {perSession, type SessionRegistry} from '../sessionRegistry.js';
+import {targetArgShape} from './targetTools.js';
+
+const MAX_LOG_LINES_PER_STEP = 20;
+
+const timeoutMs = z.number().int().min(0).max(120_000).optional();
+
+const stepSchema = z.discriminatedUnion('action', [
+  z.object({
+    action: z.literal('navigate'),
+    url: z.string().url(),
+    waitForLoad: z.boolean().optional(),
+    timeoutMs,
+  }),
+  z.object({
+    action: z.literal('reload'),
+    ignoreCache: z.boolean().optional(),
+    waitForLoad: z.boolean().optional(),
+    timeoutMs,
+  }),
+  z.object({
+    action: z.literal('pressKey'),
+    key: z.string().min(1).refine(
+      key => key in KEY_MAP,
+      key => ({message: `Unknown key "${key}". Known keys: ${Object.keys(KEY_MAP).join(', ')}.`}),
+    ),
+    repeat: z.number().int().min(1).max(50).optional(),
+    delayMs: z.number().int().min(0).max(5_000).optional(),
+  }),
+  z.object({
+    action: z.literal('click'),
+    selector: z.string().min(1),
+    index: z.number().int().min(0).optional(),
+  }),
+  z.object({
+    action: z.literal('type'),
+    selector: z.string().min(1),
+    text: z.string(),
+    index: z.number().int().min(0).optional(),
+    replace: z.boolean().optional(),
+    submit: z.boolean().optional(),
+  }),
+  z.object({
+    action: z.literal('waitForSelector'),
+    selector: z.string().min(1),
+    visible: z.boolean().optional(),
+    timeoutMs,
+  }),
+  z.object({
+    action: z.literal('wait'),
+    ms: z.number().int().min(0).max(120_000),
+  }),
+  z.object({
+    action: z.literal('evaluate'),
+    expression: z.string().min(1),
+    awaitPromise: z.boolean().optional(),
+  }),
+  z.object({
+    action: z.literal('screenshot'),
+    format: z.enum(['png', 'jpeg', 'webp']).optional(),
+    quality: z.number().int().min(0).max(100).optional(),
+  }),
+  z.object({
+    action: z.literal('assert'),
+    expression: z.string().min(1),
+    equals: z.unknown().optional(),
+    message: z.string().optional(),
+  }),
+]).superRefine((step, ctx) => {
+  // CDP ignores quality for PNG, which would silently produce a lossless image.
+  if (step.action === 'screenshot' && step.quality !== undefined && (step.format ?? 'png') === 'png') {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['quality'],
+      message: 'quality applies only to jpeg and webp screenshots.',
+    });
+  }
+});
+
+const scenarioDocumentSchema = z.union([
+  z.array(stepSchema).min(1),
+  z.object({steps: z.array(stepSchema).min(1)}).transform(doc => doc.steps),
+]);
+
+const runScenarioShape = {
+  ...targetArgShape,
+  scenario: z
+    .string()
+    .min(1, 'Provide the scenario as JSON or YAML.')
+    .describe(
+      'JSON or YAML list of steps (or {steps: [...]}). Each step has an action: navigate, reload, pressKey, click, type, waitForSelector, wait, evaluate, screenshot, assert.',
+    ),
+  stopOnFailure: z
+    .boolean()
+    .default(true)
+    .describe('Skip remaining steps after the first failure.'),
+  includeLogs: z
+    .boolean()
+    .default(true)
+    .describe('Attach log entries recorded during each step.'),
+  screenshotOnFailure: z
+    .boolean()
+    .default(false)
+    .describe('Capture a screenshot when a step fails.'),
+} as const;
+
+const runScenarioArgsSchema = z.object(runScenarioShape);
+type RunScenarioArgs = z.infer<typeof runScenarioArgsSchema>;
+
+export function registerScenarioTools(
+  server: McpServer,
+  sessions: SessionRegistry,
+): void {
+  const runnerFor = perSession(session => new ScenarioRunner(session));
+
+  server.registerTool(
+    'run_scenario',
+    {
+      description:
+        'Run a multi-step scenario (navigate, keys, clicks, waits, assertions, screenshots) server-side and report each step.',
+      inputSchema: runScenarioShape,
+    },
+    async ({
+      target,
+      scenario,
+      stopOnFailure,
+      includeLogs,
+      screenshotOnFailure,
+    }: RunScenarioArgs) => {
+      let steps: ScenarioStep[];
+      try {
+        steps = parseScenario(scenario);
+      } catch (error) {
+        return {
+          isError: true,
+          content: [
+            {
+              type: 'text',
+              text:
+                error instanceof Error
+                  ? `Invalid scenario: ${error.message}`
+                  : 'Invalid scenario.',
+            },
+          ],
+        };
+      }
+
+      try {
+        const report = await runnerFor(sessions.get(target)).run(steps, {
+          stopOnFailure,
+          includeLogs,
+          screenshotOnFailure,
+        });
+        return {
+          isError: !report.passed,
+          content: formatReport(report),
+        };
+      } catch (error) {
+        return {
+          isError: true,
+          content: [
+            {
+              type: 'text',
+              text:
+                error instanceof Error
+                  ? `Scenario failed: ${error.message}`
+                  : 'Scenario failed.',
+            },
+          ],
+        };
+      }
+    },
+  );
+}
+
+function parseScenario(source: string): ScenarioStep[] {
+  // YAML is a superset of JSON, so one parser covers both formats.
+  const document: unknown = parseYaml(source);
+  const parsed = scenarioDocumentSchema.safeParse(document);
+  if (!parsed.success) {
+    const issues = parsed.error.issues
+      .map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+      .join('; ');
+    throw new Error(issues);
+  }
+  return parsed.data;
+}
+
+function formatReport(
+  report: ScenarioReport,
+): Array<{type: 'text'; text: string} | {type: 'image'; data: string; mimeType: string}> {
+  const counts = {passed: 0, failed: 0, skipped: 0};
+  for (const step of report.steps) {
+    counts[step.status]++;
+  }
+  const content: Array<
+    | {type: 'text'; text: string}
+    | {type: 'image'; data: string; mimeType: string}
+  > = [
+    {
+      type: 'text',
+      text: `Scenario ${report.passed ? 'passed' : 'failed'} in ${Math.round(report.durationMs)} ms (${counts.passed} passed, ${counts.failed} failed, ${counts.skipped} skipped).`,
+    },
+  ];
+  for (const step of report.steps) {
+    content.push({type: 'text', text: formatStep(step)});
+    if (step.screenshot) {
+      content.push({
+        type: 'image',
+        data: step.screenshot.data,
+        mimeType: step.screenshot.mimeType,
+      });
+    }
+  }
+  return content;
+}
+
+function formatStep(step: ScenarioStepReport): string {
+  const marker = step.status === 'passed' ? '✓' : step.status === 'failed' ? '✗' : '-';
+  const lines = [
+    `${marker} ${step.index + 1}. ${describeStep(step.step)}${step.status === 'skipped' ? ' (skipped)' : ` (${Math.round(step.durationMs)} ms)`}`,
+  ];
+  if (step.detail) {
+    lines.push(`  ${step.detail}`);
+  }
+  if (step.error) {
+    lines.push(`  error: ${step.error}`);
+  }
+  if (step.logs.length) {
+    lines.push(`  logs (${step.logs.length}):`);
+    for (const entry of step.logs.slice(-MAX_LOG_LINES_PER_STEP)) {
+      lines.push(`    ${formatLogLine(entry)}`);
+    }
+  }
+  return lines.join('\n');
+}
+
+function describeStep(step: ScenarioStep): string {
+  switch (step.action) {
+    case 'navigate':
+      return `navigate ${step.url}`;
+    case 'reload':
+      return 'reload';
+    case 'pressKey':
+      return `pressKey ${step.key}${step.repeat && step.repeat > 1 ? ` x${step.repeat}` : ''}`;
+    case 'click':
+      return `click ${step.selector}`;
+    case 'type':
+      return `type ${JSON.stringify(step.text)} into ${step.selector}`;
+    case 'waitForSelector':
+      return `waitForSelector ${step.selector}`;
+    case 'wait':
+      return `wait ${step.ms} ms`;
+    case 'evaluate':
+      return `evaluate ${step.expression}`;
+    case 'screenshot':
+      return `screenshot (${step.format ?? 'png'})`;
+    case 'assert':
+      return `assert ${step.expression}`;
+  }
+}
+
+function formatLogLine(entry: PageLogEntry): string {
+  return `${entry.timestamp.toISOString()} ${entry.level.toUpperCase()} ${entry.message}`;
+}
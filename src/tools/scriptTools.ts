@@ -0,0 +1,386 @@
+import {z} from 'zod';
+
+import type {McpServer} from '@modelcontextprotocol/sdk/server/mcp.js';
+
+import type {PageSession} from '../pageSession.js';
+import type {ScriptInfo} from '../scriptCatalog.js';
+import {
+  compileRegexLiteral,
+  compileSearchPattern,
+  escapeRegex,
+  parseRegexLiteral,
+} from '../searchPattern.js';
+import type {SessionRegistry} from '../sessionRegistry.js';
+import {targetArgShape} from './targetTools.js';
+
+// Characters shown either side of a search match on long (minified) lines.
+const SEARCH_CONTEXT_CHARS = 60;
+
+const listScriptsShape = {
+  ...targetArgShape,
+  url: z
+    .string()
+    .min(1)
+    .optional()
+    .describe('Only list scripts whose URL contains this text, or matches /regex/flags.'),
+  includeAnonymous: z
+    .boolean()
+    .default(false)
+    .describe('Also list scripts without a URL (eval, new Function, injected code).'),
+  limit: z.number().int().min(1).max(1000).default(100),
+} as const;
+
+const getSourceShape = {
+  ...targetArgShape,
+  scriptId: z.string().min(1).optional().describe('Script id from scripts_list or a stack trace.'),
+  url: z
+    .string()
+    .min(1)
+    .optional()
+    .describe('Script URL, or a substring that matches exactly one loaded script.'),
+  startLine: z.number().int().min(1).optional().describe('First line to show (1-based, as in stack traces).'),
+  endLine: z.number().int().min(1).optional().describe('Last line to show (inclusive).'),
+  maxLines: z.number().int().min(1).max(2000).default(200),
+  maxLineLength: z
+    .number()
+    .int()
+    .min(20)
+    .max(10_000)
+    .default(300)
+    .describe('Truncate longer lines (minified bundles are often one huge line).'),
+} as const;
+
+const searchScriptsShape = {
+  ...targetArgShape,
+  query: z.string().min(1).describe('Text to find, or /regex/flags.'),
+  caseSensitive: z
+    .boolean()
+    .default(false)
+    .describe('Match text case-sensitively (a /regex/ uses its own i flag).'),
+  url: z
+    .string()
+    .min(1)
+    .optional()
+    .describe('Only search scripts whose URL contains this text, or matches /regex/flags.'),
+  includeAnonymous: z
+    .boolean()
+    .default(false)
+    .describe('Also search scripts without a URL.'),
+  maxResults: z.number().int().min(1).max(500).default(50),
+} as const;
+
+const listScriptsArgsSchema = z.object(listScriptsShape);
+type ListScriptsArgs = z.infer<typeof listScriptsArgsSchema>;
+
+const getSourceArgsSchema = z.object(getSourceShape);
+type GetSourceArgs = z.infer<typeof getSourceArgsSchema>;
+
+const searchScriptsArgsSchema = z.object(searchScriptsShape);
+type SearchScriptsArgs = z.infer<typeof searchScriptsArgsSchema>;
+
+export function registerScriptTools(
+  server: McpServer,
+  sessions: SessionRegistry,
+): void {
+  server.registerTool(
+    'scripts_list',
+    {
+      description: 'List the scripts the page has parsed with their ids, sizes, and source map URLs.',
+      inputSchema: listScriptsShape,
+    },
+    async ({target, url, includeAnonymous, limit}: ListScriptsArgs) => {
+      try {
+        const session = sessions.get(target);
+        const scripts = filterScripts(session, url, includeAnonymous);
+        if (!scripts.length) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: url
+                  ? `No scripts matching "${url}" have been parsed.`
+                  : 'No scripts have been parsed yet.',
+              },
+            ],
+          };
+        }
+        const shown = scripts.slice(0, limit);
+        const lines = [
+          `Scripts (${shown.length} of ${scripts.length}):`,
+          ...shown.map(script => formatScript(session, script)),
+        ];
+        if (scripts.length > shown.length) {
+          lines.push(`… ${scripts.length - shown.length} more; narrow with url or raise limit.`);
+        }
+        return {
+          content: [
+            {
+              type: 'text',
+              text: lines.join('\n'),
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          isError: true,
+          content: [
+            {
+              type: 'text',
+              text:
+                error instanceof Error
+                  ? `Failed to list scripts: ${error.message}`
+                  : 'Failed to list scripts.',
+            },
+          ],
+        };
+      }
+    },
+  );
+
+  server.registerTool(
+    'scripts_get_source',
+    {
+      description:
+        'Show the source of a loaded script by id or URL, optionally limited to a line range. Line numbers match stack traces.',
+      inputSchema: getSourceShape,
+    },
+    async ({
+      target,
+      scriptId,
+      url,
+      startLine,
+      endLine,
+      maxLines,
+      maxLineLength,
+    }: GetSourceArgs) => {
+      try {
+        const session = sessions.get(target);
+        const script = findScript(session, scriptId, url);
+        const source = await session.scripts.getSource(script.scriptId);
+        if (source === undefined) {
+          throw new Error(`Source of script ${script.scriptId} is no longer available.`);
+        }
+        // Inline scripts report lines relative to their document.
+        const firstLine = script.startLine + 1;
+        const sourceLines = source.split(/\r?\n/);
+        const lastLine = firstLine + sourceLines.length - 1;
+        const from = Math.max(startLine ?? firstLine, firstLine);
+        const to = Math.min(endLine ?? lastLine, lastLine, from + maxLines - 1);
+        if (from > to) {
+          throw new Error(
+            `Lines ${startLine ?? firstLine}-${endLine ?? lastLine} are outside the script (lines ${firstLine}-${lastLine}).`,
+          );
+        }
+        const width = String(to).length;
+        const lines = [
+          `${script.url || `<anonymous ${script.scriptId}>`} (script ${script.scriptId}), lines ${from}-${to} of ${firstLine}-${lastLine}:`,
+          ...sourceLines
+            .slice(from - firstLine, to - firstLine + 1)
+            .map((line, index) =>
+              `${String(from + index).padStart(width)}  ${truncateLine(line, maxLineLength)}`,
+            ),
+        ];
+        if (to < Math.min(endLine ?? lastLine, lastLine)) {
+          lines.push(`… stopped at maxLines (${maxLines}); continue with startLine ${to + 1}.`);
+        }
+        return {
+          content: [
+            {
+              type: 'text',
+              text: lines.join('\n'),
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          isError: true,
+          content: [
+            {
+              type: 'text',
+              text:
+                error instanceof Error
+                  ? `Failed to get script source: ${error.message}`
+                  : 'Failed to get script source.',
+            },
+          ],
+        };
+      }
+    },
+  );
+
+  server.registerTool(
+    'scripts_search',
+    {
+      description: 'Search the source of every loaded script for text or a /regex/.',
+      inputSchema: searchScriptsShape,
+    },
+    async ({
+      target,
+      query,
+      caseSensitive,
+      url,
+      includeAnonymous,
+      maxResults,
+    }: SearchScriptsArgs) => {
+      try {
+        const session = sessions.get(target);
+        const literal = parseRegexLiteral(query);
+        const pattern = literal
+          ? compileRegexLiteral(literal, 'search regex')
+          : new RegExp(escapeRegex(query), caseSensitive ? '' : 'i');
+        const scripts = filterScripts(session, url, includeAnonymous);
+        const lines: string[] = [];
+        let total = 0;
+        let matchedScripts = 0;
+        for (const script of scripts) {
+          const matches = await session.scripts
+            .search(script, literal ? literal.source : query, {
+              isRegex: !!literal,
+              caseSensitive: literal ? !literal.flags.includes('i') : caseSensitive,
+            })
+            .catch(() => []);
+          if (!matches.length) {
+            continue;
+          }
+          matchedScripts++;
+          total += matches.length;
+          for (const match of matches) {
+            if (lines.length < maxResults) {
+              lines.push(
+                `  ${script.url || `<anonymous ${script.scriptId}>`}:${match.lineNumber + 1}  ${matchSnippet(match.lineContent, pattern)}`,
+              );
+            }
+          }
+        }
+        if (!total) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `No matches for ${query} in ${scripts.length} script(s).`,
+              },
+            ],
+          };
+        }
+        return {
+          content: [
+            {
+              type: 'text',
+              text: [
+                `Found ${total} matching line(s) in ${matchedScripts} of ${scripts.length} script(s):`,
+                ...lines,
+                ...(total > lines.length
+                  ? [`… ${total - lines.length} more; narrow with url or raise maxResults.`]
+                  : []),
+              ].join('\n'),
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          isError: true,
+          content: [
+            {
+              type: 'text',
+              text:
+                error instanceof Error
+                  ? `Failed to search scripts: ${error.message}`
+                  : 'Failed to search scripts.',
+            },
+          ],
+        };
+      }
+    },
+  );
+}
+
+function filterScripts(
+  session: PageSession,
+  url: string | undefined,
+  includeAnonymous: boolean,
+): ScriptInfo[] {
+  const pattern = url ? compileSearchPattern(url) : undefined;
+  return session.scripts
+    .list()
+    .filter(script => (script.url ? !pattern || pattern.test(script.url) : includeAnonymous && !pattern));
+}
+
+function findScript(
+  session: PageSession,
+  scriptId: string | undefined,
+  url: string | undefined,
+): ScriptInfo {
+  if (scriptId && url) {
+    throw new Error('Provide exactly one of scriptId or url.');
+  }
+  if (scriptId) {
+    const script = session.scripts.get(scriptId);
+    if (!script) {
+      throw new Error(`Unknown script ${scriptId}; it may belong to a page that has since reloaded.`);
+    }
+    return script;
+  }
+  if (!url) {
+    throw new Error('Provide exactly one of scriptId or url.');
+  }
+  const exact = session.scripts.findByUrl(url);
+  if (exact) {
+    return exact;
+  }
+  const candidates = new Map<string, ScriptInfo>();
+  for (const script of session.scripts.list()) {
+    if (script.url.includes(url)) {
+      // Keep the latest parse of each URL.
+      candidates.set(script.url, script);
+    }
+  }
+  const [only] = candidates.values();
+  if (only && candidates.size === 1) {
+    return only;
+  }
+  if (!only) {
+    throw new Error(`No loaded script URL contains "${url}".`);
+  }
+  const names = Array.from(candidates.keys());
+  throw new Error(
+    `"${url}" matches ${names.length} scripts: ${names.slice(0, 5).join(', ')}${names.length > 5 ? ', …' : ''}`,
+  );
+}
+
+function formatScript(session: PageSession, script: ScriptInfo): string {
+  const parts = [`  ${script.scriptId}  ${script.url || '<anonymous>'}`];
+  if (script.length !== undefined) {
+    parts.push(formatLength(script.length));
+  }
+  if (script.startLine > 0) {
+    parts.push(`inline at line ${script.startLine + 1}`);
+  }
+  if (script.isModule) {
+    parts.push('module');
+  }
+  if (script.sourceMapURL) {
+    const error = session.scripts.sourceMapError(script);
+    const mapUrl = script.sourceMapURL.startsWith('data:') ? '<inline data: URI>' : script.sourceMapURL;
+    parts.push(`map: ${mapUrl}${error ? ` (failed: ${error})` : ''}`);
+  }
+  return parts.join('  ');
+}
+
+function formatLength(length: number): string {
+  return length >= 1024 ? `${(length / 1024).toFixed(1)}K chars` : `${length} chars`;
+}
+
+function truncateLine(line: string, max: number): string {
+  return line.length > max ? `${line.slice(0, max)}… (+${line.length - max} chars)` : line;
+}
+
+function matchSnippet(line: string, pattern: RegExp): string {
+  const trimmed = line.trim();
+  if (trimmed.length <= SEARCH_CONTEXT_CHARS * 2) {
+    return trimmed;
+  }
+  const index = Math.max(0, trimmed.search(pattern));
+  const start = Math.max(0, index - SEARCH_CONTEXT_CHARS);
+  const end = Math.min(trimmed.length, index + SEARCH_CONTEXT_CHARS);
+  return `${start > 0 ? '…' : ''}${trimmed.slice(start, end)}${end < trimmed.length ? '…' : ''}`;
+}
@@ -3,9 +3,11 @@ import {z} from 'zod';
 import type {McpServer} from '@modelcontextprotocol/sdk/server/mcp.js';
 
 import {StorageManager, type SetCookieOptions} from '../storageManager.js';
-import type {PageSession} from '../pageSession.js';
+import {perSession, type SessionRegistry} from '../sessionRegistry.js';
+import {targetArgShape} from './targetTools.js';
 
 const listCookiesShape = {
+  ...targetArgShape,
   url: z
     .string()
     .url('Provide a valid URL to scope cookies (optional).')
@@ -13,6 +15,7 @@ const listCookiesShape = {
 } as const;
 
 const setCookieShape = {
+  ...targetArgShape,
   url: z
     .string()
     .url('URL used to scope the cookie. Required.'),
@@ -36,6 +39,7 @@ const setCookieShape = {
 } as const;
 
 const deleteCookieShape = {
+  ...targetArgShape,
   name: z
     .string()
     .min(1, 'Cookie name is required.'),
@@ -45,6 +49,7 @@ const deleteCookieShape = {
 } as const;
 
 const setLocalStorageShape = {
+  ...targetArgShape,
   key: z
     .string()
     .min(1, 'Key must be provided.'),
@@ -52,16 +57,21 @@ const setLocalStorageShape = {
 } as const;
 
 const removeLocalStorageShape = {
+  ...targetArgShape,
   key: z
     .string()
     .min(1, 'Key must be provided.'),
 } as const;
 
+const targetOnlyShape = {
+  ...targetArgShape,
+} as const;
+
 export function registerStorageTools(
   server: McpServer,
-  session: PageSession,
+  sessions: SessionRegistry,
 ): void {
-  const storage = new StorageManager(session);
+  const storageFor = perSession(session => new StorageManager(session));
 
   server.registerTool(
     'storage_list_cookies',
@@ -69,8 +79,9 @@ export function registerStorageTools(
       description: 'List cookies available to the current page context.',
       inputSchema: listCookiesShape,
     },
-    async ({url}: {url?: string}) => {
+    async ({target, url}: {target?: string; url?: string}) => {
       try {
+        const storage = storageFor(sessions.get(target));
         const cookies = await storage.listCookies(url);
         if (!cookies.length) {
           return {
@@ -125,9 +136,9 @@ export function registerStorageTools(
       description: 'Create or update a cookie for the current browser context.',
       inputSchema: setCookieShape,
     },
-    async (args: SetCookieOptions) => {
+    async ({target, ...args}: SetCookieOptions & {target?: string}) => {
       try {
-        await storage.setCookie(args);
+        await storageFor(sessions.get(target)).setCookie(args);
         return {
           content: [
             {
@@ -159,9 +170,9 @@ export function registerStorageTools(
       description: 'Delete a cookie by name and optional scope.',
       inputSchema: deleteCookieShape,
     },
-    async ({name, url, domain, path}: {name: string; url?: string; domain?: string; path?: string}) => {
+    async ({target, name, url, domain, path}: {target?: string; name: string; url?: string; domain?: string; path?: string}) => {
       try {
-        await storage.deleteCookie({name, url, domain, path});
+        await storageFor(sessions.get(target)).deleteCookie({name, url, domain, path});
         return {
           content: [
             {
@@ -191,10 +202,11 @@ export function registerStorageTools(
     'storage_clear_cookies',
     {
       description: 'Clear all browser cookies for the current session.',
+      inputSchema: targetOnlyShape,
     },
-    async () => {
+    async ({target}: {target?: string}) => {
       try {
-        await storage.clearCookies();
+        await storageFor(sessions.get(target)).clearCookies();
         return {
           content: [
             {
@@ -224,10 +236,11 @@ export function registerStorageTools(
     'storage_list_local_storage',
     {
       description: 'List all key/value pairs from window.localStorage.',
+      inputSchema: targetOnlyShape,
     },
-    async () => {
+    async ({target}: {target?: string}) => {
       try {
-        const entries = await storage.listLocalStorage();
+        const entries = await storageFor(sessions.get(target)).listLocalStorage();
         if (!entries.length) {
           return {
             content: [
@@ -270,9 +283,9 @@ export function registerStorageTools(
       description: 'Set a localStorage key to a string value.',
       inputSchema: setLocalStorageShape,
     },
-    async ({key, value}: {key: string; value: string}) => {
+    async ({target, key, value}: {target?: string; key: string; value: string}) => {
       try {
-        await storage.setLocalStorageItem(key, value);
+        await storageFor(sessions.get(target)).setLocalStorageItem(key, value);
         return {
           content: [
             {
@@ -304,9 +317,9 @@ export function registerStorageTools(
       description: 'Remove a key from localStorage if it exists.',
       inputSchema: removeLocalStorageShape,
     },
-    async ({key}: {key: string}) => {
+    async ({target, key}: {target?: string; key: string}) => {
       try {
-        await storage.removeLocalStorageItem(key);
+        await storageFor(sessions.get(target)).removeLocalStorageItem(key);
         return {
           content: [
             {
@@ -0,0 +1,332 @@
+import {z} from 'zod';
+
+import type {McpServer} from '@modelcontextprotocol/sdk/server/mcp.js';
+
+import type {SessionRegistry, TargetInfo} from '../sessionRegistry.js';
+import {
+  assertPageEndpoint,
+  createEndpointResolver,
+  describeMatcher,
+  devtoolsHostFromEndpoint,
+  formatDevtoolsHost,
+  listPageTargets,
+  matchesTarget,
+  parseDevtoolsHost,
+  type DevtoolsHost,
+  type PageTarget,
+} from '../targetDiscovery.js';
+
+/** Spread into a tool's input shape to let callers pick a named target. */
+export const targetArgShape = {
+  target: z
+    .string()
+    .min(1)
+    .optional()
+    .describe('Named target to operate on (see target_list). Defaults to the active target.'),
+} as const;
+
+const listTargetsShape = {
+  host: z
+    .string()
+    .min(1)
+    .optional()
+    .describe('DevTools HTTP host (host:port). Defaults to the host of the attached page.'),
+  title: z
+    .string()
+    .min(1)
+    .optional()
+    .describe('Filter by title substring, or /regex/.'),
+  url: z
+    .string()
+    .min(1)
+    .optional()
+    .describe('Filter by URL substring, or /regex/.'),
+} as const;
+
+const attachShape = {
+  name: z
+    .string()
+    .min(1, 'Provide a name for the target.')
+    .regex(/^[\w.-]+$/, 'Use letters, digits, dots, dashes, or underscores.')
+    .describe('Name used to refer to this target in other tools.'),
+  endpoint: z
+    .string()
+    .min(1)
+    .optional()
+    .describe('Page WebSocket URL (ws://host:port/devtools/page/<id>).'),
+  host: z
+    .string()
+    .min(1)
+    .optional()
+    .describe('DevTools HTTP host (host:port) to discover the page from. Defaults to the active target host.'),
+  title: z
+    .string()
+    .min(1)
+    .optional()
+    .describe('Match the page title by substring, or /regex/ (with host).'),
+  url: z
+    .string()
+    .min(1)
+    .optional()
+    .describe('Match the page URL by substring, or /regex/ (with host).'),
+  select: z
+    .boolean()
+    .default(false)
+    .describe('Make the new target active.'),
+} as const;
+
+const nameShape = {
+  name: z
+    .string()
+    .min(1, 'Provide the target name.'),
+} as const;
+
+const listTargetsArgsSchema = z.object(listTargetsShape);
+type ListTargetsArgs = z.infer<typeof listTargetsArgsSchema>;
+
+const attachArgsSchema = z.object(attachShape);
+type AttachArgs = z.infer<typeof attachArgsSchema>;
+
+const nameArgsSchema = z.object(nameShape);
+type NameArgs = z.infer<typeof nameArgsSchema>;
+
+export function registerTargetTools(
+  server: McpServer,
+  sessions: SessionRegistry,
+): void {
+  const defaultHost = (): DevtoolsHost | undefined => {
+    if (!sessions.activeName) {
+      return undefined;
+    }
+    const active = sessions.info();
+    if (active.devtoolsHost) {
+      return active.devtoolsHost;
+    }
+    return active.session.endpoint
+      ? devtoolsHostFromEndpoint(active.session.endpoint)
+      : undefined;
+  };
+
+  server.registerTool(
+    'list_targets',
+    {
+      description: 'List page targets exposed by the DevTools HTTP endpoint (/json/list).',
+      inputSchema: listTargetsShape,
+    },
+    async ({host, title, url}: ListTargetsArgs) => {
+      try {
+        const resolvedHost = host ? parseDevtoolsHost(host) : defaultHost();
+        if (!resolvedHost) {
+          throw new Error('Unable to determine the DevTools host; pass host explicitly.');
+        }
+        const targets = (await listPageTargets(resolvedHost)).filter(target =>
+          matchesTarget(target, {title, url}),
+        );
+        if (!targets.length) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `No page targets found on ${formatDevtoolsHost(resolvedHost)}.`,
+              },
+            ],
+          };
+        }
+        return {
+          content: [
+            {
+              type: 'text',
+              text: targets
+                .map(target => formatTarget(target, sessions.list()))
+                .join('\n\n'),
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          isError: true,
+          content: [
+            {
+              type: 'text',
+              text:
+                error instanceof Error
+                  ? `Failed to list targets: ${error.message}`
+                  : 'Failed to list targets.',
+            },
+          ],
+        };
+      }
+    },
+  );
+
+  server.registerTool(
+    'target_list',
+    {
+      description: 'List named targets attached to this server and which one is active.',
+    },
+    async () => {
+      const targets = sessions.list();
+      if (!targets.length) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: 'No targets attached.',
+            },
+          ],
+        };
+      }
+      return {
+        content: [
+          {
+            type: 'text',
+            text: targets.map(formatAttachedTarget).join('\n\n'),
+          },
+        ],
+      };
+    },
+  );
+
+  server.registerTool(
+    'target_attach',
+    {
+      description:
+        'Attach an additional page target by WebSocket URL, or by discovering it from a DevTools host.',
+      inputSchema: attachShape,
+    },
+    async ({name, endpoint, host, title, url, select}: AttachArgs) => {
+      try {
+        if (endpoint) {
+          assertPageEndpoint(endpoint);
+          await sessions.attach({name, endpoint, description: endpoint, select});
+        } else {
+          const devtoolsHost = host ? parseDevtoolsHost(host) : defaultHost();
+          if (!devtoolsHost) {
+            throw new Error('Provide endpoint, or host with a title/url matcher.');
+          }
+          const matcher = {title, url};
+          await sessions.attach({
+            name,
+            endpoint: createEndpointResolver(devtoolsHost, matcher),
+            description: `${formatDevtoolsHost(devtoolsHost)} (${describeMatcher(matcher)})`,
+            devtoolsHost,
+            select,
+          });
+        }
+        const info = sessions.info(name);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Attached target ${name}${info.active ? ' (active)' : ''}: ${info.session.endpoint ?? info.description}`,
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          isError: true,
+          content: [
+            {
+              type: 'text',
+              text:
+                error instanceof Error
+                  ? `Failed to attach target: ${error.message}`
+                  : 'Failed to attach target.',
+            },
+          ],
+        };
+      }
+    },
+  );
+
+  server.registerTool(
+    'target_detach',
+    {
+      description: 'Disconnect a named target and discard its logs, network records, and overlay state.',
+      inputSchema: nameShape,
+    },
+    async ({name}: NameArgs) => {
+      try {
+        await sessions.detach(name);
+        const active = sessions.activeName;
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Detached target ${name}.${active ? ` Active target: ${active}.` : ' No targets remain attached.'}`,
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          isError: true,
+          content: [
+            {
+              type: 'text',
+              text: error instanceof Error ? error.message : 'Failed to detach target.',
+            },
+          ],
+        };
+      }
+    },
+  );
+
+  server.registerTool(
+    'target_select',
+    {
+      description: 'Make a named target the default for tools called without a target argument.',
+      inputSchema: nameShape,
+    },
+    async ({name}: NameArgs) => {
+      try {
+        sessions.select(name);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Active target is now ${name}.`,
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          isError: true,
+          content: [
+            {
+              type: 'text',
+              text: error instanceof Error ? error.message : 'Failed to select target.',
+            },
+          ],
+        };
+      }
+    },
+  );
+}
+
+function formatAttachedTarget(info: TargetInfo): string {
+  return [
+    `${info.name}${info.active ? ' (active)' : ''}`,
+    `source: ${info.description}`,
+    `endpoint: ${info.session.endpoint ?? 'unresolved'}`,
+    `state: ${info.session.connectionState}`,
+  ].join('\n');
+}
+
+function formatTarget(target: PageTarget, attached: TargetInfo[]): string {
+  const names = attached
+    .filter(info => {
+      const endpoint = info.session.endpoint;
+      return (
+        !!endpoint &&
+        (target.webSocketDebuggerUrl === endpoint ||
+          endpoint.endsWith(`/devtools/page/${target.id}`))
+      );
+    })
+    .map(info => info.name);
+  return [
+    `${target.id}${names.length ? ` (attached as ${names.join(', ')})` : ''}`,
+    `title: ${target.title || '(untitled)'}`,
+    `url: ${target.url}`,
+    `ws: ${target.webSocketDebuggerUrl ?? 'unavailable (debugger already attached?)'}`,
+  ].join('\n');
+}